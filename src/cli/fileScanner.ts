@@ -0,0 +1,46 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getLanguageId } from '../core/SourceLanguages';
+
+export interface ScannedFile {
+    absolutePath: string;
+    relativePath: string;
+    languageId: string;
+}
+
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git']);
+
+/**
+ * Recursively collect analyzable files below a directory
+ */
+export function scanDirectory(root: string): ScannedFile[] {
+    const files: ScannedFile[] = [];
+    const pending = [root];
+
+    while (pending.length > 0) {
+        const directory = pending.pop()!;
+        const entries = fs.readdirSync(directory, { withFileTypes: true });
+
+        for (const entry of entries) {
+            const absolutePath = path.join(directory, entry.name);
+
+            if (entry.isDirectory()) {
+                if (!SKIPPED_DIRECTORIES.has(entry.name)) {
+                    pending.push(absolutePath);
+                }
+                continue;
+            }
+
+            const languageId = entry.isFile() ? getLanguageId(entry.name) : undefined;
+            if (languageId) {
+                files.push({
+                    absolutePath,
+                    relativePath: path.relative(root, absolutePath).split(path.sep).join('/'),
+                    languageId
+                });
+            }
+        }
+    }
+
+    return files.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+}
@@ -0,0 +1,246 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { InvertedIndex } from '../core/InvertedIndex';
+import { AnalysisAggregator } from '../core/AnalysisAggregator';
+import { CompatibilityEvaluator, DEFAULT_BROWSER_TARGETS, describeBaselineTarget } from '../core/CompatibilityEvaluator';
+import { loadBrowserslistConfig, resolveBrowserslistQuery } from '../core/BrowserslistResolver';
+import { RiskTolerance, RISK_TOLERANCES } from '../core/RiskPolicy';
+import { PolicyError, ProjectPolicy } from '../core/ProjectPolicy';
+import { scanDirectory } from './fileScanner';
+import { CliResult, formatJson, formatText } from './report';
+import { BaselineTarget, BrowserTarget } from '../types';
+
+/**
+ * Headless entry point: `baseline-navigator [dir] [options]`
+ *
+ * Exit codes: 0 = passed, 1 = compatibility gate failed, 2 = usage or runtime error
+ */
+
+interface CliOptions {
+    root: string;
+    threshold: number;
+    riskTolerance?: RiskTolerance;
+    targets?: BrowserTarget[];
+    browserslist?: string;
+    baseline?: BaselineTarget;
+    format: 'text' | 'json';
+}
+
+class UsageError extends Error {}
+
+const USAGE = `Usage: baseline-navigator [directory] [options]
+
+Scan a directory for web platform features and check them against Baseline.
+
+Options:
+  -t, --threshold <0-100>       Minimum compatibility score (default: 70)
+  -r, --risk-tolerance <level>  strict | moderate | permissive (default: moderate)
+  -b, --targets <list>          Browser minimums, e.g. chrome:90,safari:15
+  -q, --browserslist <query>    Browserslist query, e.g. "> 0.5%, last 2 versions"
+  --baseline <target>           Target Baseline instead of browsers: a year such as
+                                2023, "widely" or "widely:YYYY-MM-DD"
+
+  -f, --format <format>         text | json (default: text)
+  -h, --help                    Show this help
+
+Options given on the command line override the directory's .baselinerc.json
+(or the "baseline" key of its package.json). Browser targets default to the
+policy, then the directory's browserslist config, then to
+chrome:90,firefox:88,safari:14,edge:90.`;
+
+function parseArgs(argv: string[]): CliOptions | undefined {
+    const options: CliOptions = {
+        root: process.cwd(),
+        threshold: 70,
+        format: 'text'
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const next = () => {
+            const value = argv[++i];
+            if (value === undefined) {
+                throw new UsageError(`Missing value for ${arg}`);
+            }
+            return value;
+        };
+
+        switch (arg) {
+            case '-h':
+            case '--help':
+                return undefined;
+            case '-t':
+            case '--threshold': {
+                const threshold = Number(next());
+                if (!Number.isFinite(threshold) || threshold < 0 || threshold > 100) {
+                    throw new UsageError('Threshold must be a number between 0 and 100');
+                }
+                options.threshold = threshold;
+                break;
+            }
+            case '-r':
+            case '--risk-tolerance': {
+                const tolerance = next() as RiskTolerance;
+                if (!RISK_TOLERANCES.includes(tolerance)) {
+                    throw new UsageError(`Risk tolerance must be one of: ${RISK_TOLERANCES.join(', ')}`);
+                }
+                options.riskTolerance = tolerance;
+                break;
+            }
+            case '-b':
+            case '--targets':
+                options.targets = parseTargets(next());
+                break;
+            case '-q':
+            case '--browserslist':
+                options.browserslist = next();
+                break;
+            case '--baseline':
+                options.baseline = parseBaselineTarget(next());
+                break;
+            case '-f':
+            case '--format': {
+                const format = next();
+                if (format !== 'text' && format !== 'json') {
+                    throw new UsageError('Format must be "text" or "json"');
+                }
+                options.format = format;
+                break;
+            }
+            default:
+                if (arg.startsWith('-')) {
+                    throw new UsageError(`Unknown option: ${arg}`);
+                }
+                options.root = path.resolve(arg);
+        }
+    }
+
+    return options;
+}
+
+function parseTargets(value: string): BrowserTarget[] {
+    return value.split(',').map(entry => {
+        const [browser, version] = entry.trim().split(':');
+        if (!browser || !version || !/^\d+(\.\d+)*$/.test(version)) {
+            throw new UsageError(`Invalid browser target "${entry}", expected <browser>:<version>`);
+        }
+        return { browser: browser.toLowerCase(), version };
+    });
+}
+
+function parseBaselineTarget(value: string): BaselineTarget {
+    if (/^\d{4}$/.test(value)) {
+        return { kind: 'year', year: parseInt(value, 10) };
+    }
+
+    const widely = /^widely(?::(\d{4}-\d{2}-\d{2}))?$/.exec(value);
+    if (widely) {
+        return { kind: 'widely', asOf: widely[1] };
+    }
+
+    throw new UsageError(`Invalid Baseline target "${value}", expected a year, "widely" or "widely:YYYY-MM-DD"`);
+}
+
+function resolveTargets(options: CliOptions, policy: ProjectPolicy | undefined): BrowserTarget[] {
+    if (options.targets) {
+        return options.targets;
+    }
+
+    const policyTargets = policy?.getBrowserTargets();
+    if (!options.browserslist && policyTargets) {
+        return policyTargets;
+    }
+
+    const query = options.browserslist ?? policy?.config.browserslist ?? loadBrowserslistConfig(options.root);
+    if (query) {
+        try {
+            return resolveBrowserslistQuery(query);
+        } catch (error) {
+            throw new UsageError(`Invalid browserslist query: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    return DEFAULT_BROWSER_TARGETS;
+}
+
+async function run(options: CliOptions): Promise<CliResult> {
+    if (!fs.existsSync(options.root) || !fs.statSync(options.root).isDirectory()) {
+        throw new UsageError(`Not a directory: ${options.root}`);
+    }
+
+    let policy: ProjectPolicy | undefined;
+    try {
+        policy = ProjectPolicy.load(options.root);
+    } catch (error) {
+        if (error instanceof PolicyError) {
+            throw new UsageError(`Invalid policy ${error.message}`);
+        }
+        throw error;
+    }
+
+    const targets = resolveTargets(options, policy);
+    const baseline = options.baseline ?? policy?.getBaselineTarget();
+    const riskTolerance = options.riskTolerance ?? policy?.config.riskTolerance ?? 'moderate';
+
+    const index = new InvertedIndex();
+    await index.waitForReady();
+
+    const evaluator = new CompatibilityEvaluator(targets);
+    evaluator.setBaselineTarget(baseline);
+    const aggregator = new AnalysisAggregator(index, evaluator, policy);
+    const files = scanDirectory(options.root);
+    const analysis = aggregator.createAnalysis(files.length);
+
+    for (const file of files) {
+        try {
+            const text = fs.readFileSync(file.absolutePath, 'utf8');
+            aggregator.addDocument(analysis, text, file.languageId, file.relativePath, policy?.relativePath(file.absolutePath));
+        } catch (error) {
+            // Unreadable files count against coverage, not the score
+        }
+    }
+
+    aggregator.finalize(analysis);
+
+    const violations = aggregator.getViolations(analysis, riskTolerance);
+    return {
+        root: options.root,
+        analysis,
+        threshold: options.threshold,
+        riskTolerance,
+        targets,
+        targetLabel: baseline ? describeBaselineTarget(baseline) : undefined,
+        policySource: policy ? path.relative(options.root, policy.source) : undefined,
+        violations,
+        passed: analysis.compatibilityScore >= options.threshold && violations.length === 0
+    };
+}
+
+async function main(): Promise<number> {
+    let options: CliOptions | undefined;
+    try {
+        options = parseArgs(process.argv.slice(2));
+    } catch (error) {
+        console.error(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+        return 2;
+    }
+
+    if (!options) {
+        console.log(USAGE);
+        return 0;
+    }
+
+    try {
+        const result = await run(options);
+        console.log(options.format === 'json' ? formatJson(result) : formatText(result));
+        return result.passed ? 0 : 1;
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`baseline-navigator: ${errorMessage}`);
+        return 2;
+    }
+}
+
+main().then(code => {
+    process.exitCode = code;
+});
@@ -0,0 +1,139 @@
+import { ProjectAnalysis, ProjectFeature } from '../core/AnalysisAggregator';
+import { RiskTolerance } from '../core/RiskPolicy';
+import { formatTargets } from '../core/BrowserslistResolver';
+import { getBaselineStatus } from '../core/CompatibilityEvaluator';
+import { BrowserTarget } from '../types';
+
+export interface CliResult {
+    root: string;
+    analysis: ProjectAnalysis;
+    threshold: number;
+    riskTolerance: RiskTolerance;
+    targets: BrowserTarget[];
+    targetLabel?: string;                 // Set when targeting Baseline instead of browsers
+    policySource?: string;                // Policy file in effect, relative to root
+    violations: ProjectFeature[];
+    passed: boolean;
+}
+
+const MAX_LOCATIONS = 5;
+
+export function formatText(result: CliResult): string {
+    const { analysis } = result;
+    const lines: string[] = [];
+
+    lines.push(`Baseline Navigator compatibility report for ${result.root}`);
+    lines.push('');
+    lines.push(`  Compatibility score: ${analysis.compatibilityScore}/100 (threshold ${result.threshold})`);
+    lines.push(`  Risk tolerance:      ${result.riskTolerance}`);
+    lines.push(result.targetLabel
+        ? `  Target:              ${result.targetLabel}`
+        : `  Browser targets:     ${formatTargets(result.targets)}`);
+    if (result.policySource) {
+        lines.push(`  Project policy:      ${result.policySource}`);
+    }
+    lines.push(`  Files analyzed:      ${analysis.analyzedFiles}/${analysis.totalFiles}`);
+    lines.push(`  Features found:      ${analysis.features.size} (${analysis.safeFeatures.length} safe, ${analysis.guardedFeatures.length} guarded, ${analysis.riskFeatures.length} risk)`);
+
+    if (analysis.riskFeatures.length > 0) {
+        lines.push('');
+        lines.push('Risk features:');
+        analysis.riskFeatures.forEach(rf => {
+            const marker = result.violations.includes(rf) ? '✖' : '⚠';
+            const status = getBaselineStatus(rf.feature);
+            const policy = rf.enforcedSeverity ? ` (policy: ${rf.enforcedSeverity})` : '';
+            lines.push(`  ${marker} ${rf.feature.name || rf.feature.id} [${status}]${policy} - ${rf.usageCount} use(s) in ${rf.files.length} file(s)`);
+            if (rf.compatibility?.suggestion) {
+                lines.push(`      ${rf.compatibility.suggestion}`);
+            }
+            rf.locations.slice(0, MAX_LOCATIONS).forEach(loc => {
+                lines.push(`      ${loc.file}:${loc.line}:${loc.column}${loc.compatKey ? ` (${loc.compatKey})` : ''}`);
+            });
+            if (rf.locations.length > MAX_LOCATIONS) {
+                lines.push(`      ... and ${rf.locations.length - MAX_LOCATIONS} more`);
+            }
+        });
+    }
+
+    if (analysis.guardedFeatures.length > 0) {
+        lines.push('');
+        lines.push('Guarded features (behind @supports or feature detection):');
+        analysis.guardedFeatures.forEach(gf => {
+            lines.push(`  🛡 ${gf.feature.name || gf.feature.id} - ${gf.usageCount} use(s) in ${gf.files.length} file(s)`);
+        });
+    }
+
+    if (analysis.suppressions.size > 0) {
+        lines.push('');
+        lines.push('Suppressed by inline comments:');
+        getSuppressions(result).forEach(sf => {
+            lines.push(`  - ${sf.feature.name || sf.feature.id}: ${sf.usageCount} use(s) in ${sf.files.join(', ')}`);
+        });
+    }
+
+    lines.push('');
+    lines.push(`Result: ${result.passed ? 'PASSED' : 'FAILED'}`);
+    getFailureReasons(result).forEach(reason => lines.push(`  - ${reason}`));
+
+    return lines.join('\n');
+}
+
+export function formatJson(result: CliResult): string {
+    const { analysis } = result;
+    const serialize = (pf: ProjectFeature) => ({
+        id: pf.feature.id,
+        name: pf.feature.name || pf.feature.id,
+        baseline: pf.feature.status?.baseline ?? null,
+        compatibility: pf.compatibility?.compatibility ?? null,
+        missingBrowsers: pf.compatibility?.missingBrowsers ?? [],
+        usageCount: pf.usageCount,
+        allowedUsages: pf.allowedUsages ?? 0,
+        guardedUsages: pf.guardedUsages ?? 0,
+        policy: pf.enforcedSeverity ?? null,
+        compatKeys: pf.compatKeys ?? [],
+        files: pf.files,
+        locations: pf.locations
+    });
+
+    return JSON.stringify({
+        root: result.root,
+        passed: result.passed,
+        threshold: result.threshold,
+        riskTolerance: result.riskTolerance,
+        targets: result.targetLabel ?? result.targets,
+        policy: result.policySource ?? null,
+        compatibilityScore: analysis.compatibilityScore,
+        totalFiles: analysis.totalFiles,
+        analyzedFiles: analysis.analyzedFiles,
+        riskFeatures: analysis.riskFeatures.map(serialize),
+        safeFeatures: analysis.safeFeatures.map(serialize),
+        guardedFeatures: analysis.guardedFeatures.map(serialize),
+        suppressions: getSuppressions(result).map(serialize),
+        violations: result.violations.map(v => v.feature.id),
+        failures: getFailureReasons(result),
+        timestamp: analysis.timestamp.toISOString()
+    }, null, 2);
+}
+
+function getSuppressions(result: CliResult): ProjectFeature[] {
+    return Array.from(result.analysis.suppressions.values()).sort((a, b) => b.usageCount - a.usageCount);
+}
+
+function getFailureReasons(result: CliResult): string[] {
+    const reasons: string[] = [];
+
+    if (result.analysis.compatibilityScore < result.threshold) {
+        reasons.push(`Compatibility score ${result.analysis.compatibilityScore} is below threshold ${result.threshold}`);
+    }
+    // Policy `warning` features only fail through the tolerance
+    const policyViolations = result.violations.filter(v => v.enforcedSeverity === 'error');
+    const toleranceViolations = result.violations.filter(v => v.enforcedSeverity !== 'error');
+    if (toleranceViolations.length > 0) {
+        reasons.push(`${toleranceViolations.length} feature(s) violate the "${result.riskTolerance}" risk tolerance: ${toleranceViolations.map(v => v.feature.id).join(', ')}`);
+    }
+    if (policyViolations.length > 0) {
+        reasons.push(`${policyViolations.length} feature(s) are flagged by the project policy: ${policyViolations.map(v => v.feature.id).join(', ')}`);
+    }
+
+    return reasons;
+}
@@ -0,0 +1,425 @@
+import { InvertedIndex } from './InvertedIndex';
+import { FeatureMatch, FeaturePatternRegistry } from './FeaturePatternRegistry';
+import { CompatibilityEvaluator } from './CompatibilityEvaluator';
+import { shouldWarnForReport, RiskTolerance } from './RiskPolicy';
+import { PolicyRuleAction, ProjectPolicy } from './ProjectPolicy';
+import { InlineSuppressions } from './InlineSuppressions';
+import { ExclusionCount } from './ScanFilter';
+import { CompatibilityReport, Feature } from '../types';
+
+export interface ProjectFeature {
+    feature: Feature;
+    compatibility?: CompatibilityReport;
+    usageCount: number;
+    files: string[];                                    // Workspace-relative paths
+    locations: Array<{
+        file: string;
+        uri?: string;                                   // Opens the file, where the host knows it
+        line: number;
+        column: number;
+        context: string;
+        compatKey?: string;                             // Exact BCD key, e.g. css.properties.display.grid
+    }>;
+    compatKeys?: string[];                              // Distinct BCD keys used, for sub-feature reporting
+    allowedUsages?: number;                             // Usages accepted by a policy rule
+    guardedUsages?: number;                             // Usages behind @supports / feature detection
+    enforcedSeverity?: Exclude<PolicyRuleAction, 'allow' | 'ignore'>;   // Strongest severity forced by a policy rule
+}
+
+/**
+ * Features detected in one file, before the project policy is applied.
+ * Plain JSON so it can be persisted in the workspace index.
+ */
+export interface FileScan {
+    languageId: string;
+    features: ScannedFeature[];
+}
+
+export interface ScannedFeature {
+    featureId: string;                                  // Pattern ID
+    line: number;                                       // Zero-based
+    column: number;                                     // Zero-based
+    text: string;
+    guard?: string;                                     // Guarding `@supports` / feature-detection condition
+    compatKey?: string;
+    suppressed?: boolean;                               // Silenced by an inline baseline-ignore comment
+}
+
+// Strongest first
+const ENFORCED_SEVERITIES: Array<Exclude<PolicyRuleAction, 'allow' | 'ignore'>> = ['error', 'warning', 'info', 'hint'];
+
+export interface ProjectAnalysis {
+    features: Map<string, ProjectFeature>;
+    totalFiles: number;
+    analyzedFiles: number;
+    compatibilityScore: number;
+    riskFeatures: ProjectFeature[];
+    safeFeatures: ProjectFeature[];
+    guardedFeatures: ProjectFeature[];                  // Unsupported, but only used behind a guard
+    suppressions: Map<string, ProjectFeature>;         // Usages silenced by inline comments, for auditing
+    exclusions?: ExclusionCount[];                      // Files left out of the scan, per glob
+    packages?: PackageAnalysis[];                       // Monorepo breakdown; the score is then their rollup
+    suggestions: string[];
+    timestamp: Date;
+}
+
+/**
+ * One workspace package, analyzed against its own targets
+ */
+export interface PackageAnalysis {
+    name: string;
+    path: string;                                       // Relative to its workspace folder, '.' for the folder itself
+    targets: string;                                    // Description of the targets it was checked against
+    analysis: ProjectAnalysis;
+}
+
+/**
+ * Editor-independent core of project analysis.
+ * Collects detected features per file and scores the result, so the same
+ * logic backs both the VS Code ProjectAnalyzer and the headless CLI.
+ */
+export class AnalysisAggregator {
+    private patternRegistry: FeaturePatternRegistry;
+
+    constructor(
+        private index: InvertedIndex,
+        private evaluator: CompatibilityEvaluator = new CompatibilityEvaluator(),
+        private policy?: ProjectPolicy
+    ) {
+        this.patternRegistry = new FeaturePatternRegistry();
+    }
+
+    public setPolicy(policy: ProjectPolicy | undefined): void {
+        this.policy = policy;
+    }
+
+    public createAnalysis(totalFiles: number = 0): ProjectAnalysis {
+        return {
+            features: new Map(),
+            totalFiles,
+            analyzedFiles: 0,
+            compatibilityScore: 100,
+            riskFeatures: [],
+            safeFeatures: [],
+            guardedFeatures: [],
+            suppressions: new Map(),
+            suggestions: [],
+            timestamp: new Date()
+        };
+    }
+
+    /**
+     * Detect features in a single file and merge them into the analysis.
+     * `file` is the workspace-relative path shown in reports. `relativePath`
+     * (relative to the policy root) selects policy overrides and defaults
+     * to `file`.
+     */
+    public addDocument(analysis: ProjectAnalysis, text: string, languageId: string, file: string, relativePath: string = file, uri?: string): void {
+        this.addScan(analysis, this.scanDocument(text, languageId), file, relativePath, uri);
+    }
+
+    /**
+     * Detect features in a single file. The result only depends on the file
+     * content, so it can be cached and merged later with addScan.
+     * Pass `matches` when detection already ran elsewhere, e.g. in a worker.
+     */
+    public scanDocument(text: string, languageId: string, matches?: FeatureMatch[]): FileScan {
+        const toPosition = this.createPositionResolver(text);
+        const suppressions = InlineSuppressions.parse(text);
+
+        // Use pattern registry to detect features
+        matches ??= this.patternRegistry.findMatches(text, languageId);
+
+        return {
+            languageId,
+            features: matches.map(match => {
+                const position = toPosition(match.start);
+                const feature = this.resolveFeature(match.featureId);
+                const scanned: ScannedFeature = {
+                    featureId: match.featureId,
+                    line: position.line,
+                    column: position.character,
+                    text: match.text
+                };
+                if (match.guard) {
+                    scanned.guard = match.guard;
+                }
+                if (match.compatKey) {
+                    scanned.compatKey = match.compatKey;
+                }
+                if (suppressions.isSuppressed([feature.id, match.featureId], position.line)) {
+                    scanned.suppressed = true;
+                }
+                return scanned;
+            })
+        };
+    }
+
+    /**
+     * Merge a file scan into the analysis, applying the project policy
+     */
+    public addScan(analysis: ProjectAnalysis, scan: FileScan, file: string, relativePath: string = file, uri?: string): void {
+        for (const match of scan.features) {
+            // Resolve to actual feature from web-features
+            const feature = this.resolveFeature(match.featureId);
+            const rule = this.policy?.getRule([feature.id, match.featureId], relativePath);
+            if (rule === 'ignore') {
+                continue;
+            }
+
+            const suppressed = !!match.suppressed;
+
+            // Get or create project feature entry; suppressed usages are kept apart
+            const actualFeatureId = feature.id;
+            const target = suppressed ? analysis.suppressions : analysis.features;
+            if (!target.has(actualFeatureId)) {
+                target.set(actualFeatureId, {
+                    feature,
+                    usageCount: 0,
+                    files: [],
+                    locations: []
+                });
+            }
+
+            const projectFeature = target.get(actualFeatureId)!;
+            projectFeature.usageCount++;
+
+            if (!projectFeature.files.includes(file)) {
+                projectFeature.files.push(file);
+            }
+
+            projectFeature.locations.push({
+                file,
+                uri,
+                line: match.line + 1,
+                column: match.column + 1,
+                context: match.text,
+                compatKey: match.compatKey
+            });
+
+            if (match.compatKey && !projectFeature.compatKeys?.includes(match.compatKey)) {
+                projectFeature.compatKeys = [...(projectFeature.compatKeys || []), match.compatKey];
+            }
+
+            if (suppressed) {
+                continue;
+            }
+
+            if (rule === 'allow') {
+                projectFeature.allowedUsages = (projectFeature.allowedUsages || 0) + 1;
+            } else if (!rule && match.guard) {
+                projectFeature.guardedUsages = (projectFeature.guardedUsages || 0) + 1;
+            } else if (rule && (!projectFeature.enforcedSeverity ||
+                ENFORCED_SEVERITIES.indexOf(rule) < ENFORCED_SEVERITIES.indexOf(projectFeature.enforcedSeverity))) {
+                projectFeature.enforcedSeverity = rule;
+            }
+        }
+
+        analysis.analyzedFiles++;
+    }
+
+    /**
+     * Score the collected features and build suggestions
+     */
+    public finalize(analysis: ProjectAnalysis, evaluator: CompatibilityEvaluator = this.evaluator): void {
+        this.calculateCompatibility(analysis, evaluator);
+        if (analysis.packages?.length) {
+            analysis.compatibilityScore = this.rollUpScore(analysis.packages);
+        }
+        this.generateSuggestions(analysis);
+    }
+
+    /**
+     * Risk features that the given tolerance does not accept
+     */
+    public getViolations(analysis: ProjectAnalysis, tolerance: RiskTolerance): ProjectFeature[] {
+        return analysis.riskFeatures.filter(rf => {
+            // Policy `error` always fails and `info`/`hint` never do; `warning` is left to the tolerance
+            if (rf.enforcedSeverity && rf.enforcedSeverity !== 'warning') {
+                return rf.enforcedSeverity === 'error';
+            }
+            return shouldWarnForReport(rf.compatibility || this.evaluator.evaluate(rf.feature), tolerance);
+        });
+    }
+
+    /**
+     * Map a pattern ID to its web-features entry, falling back to a
+     * synthetic feature built from the pattern definition
+     */
+    public resolveFeature(patternId: string): Feature {
+        let feature = this.index.getFeature(patternId);
+        const pattern = this.patternRegistry.getPattern(patternId);
+
+        // If not found, try to find by pattern aliases
+        if (!feature && pattern) {
+            for (const alias of pattern.aliases) {
+                feature = this.index.getFeature(alias);
+                if (feature) {
+                    break;
+                }
+            }
+        }
+
+        // If still not found, create synthetic feature
+        if (!feature) {
+            feature = {
+                id: patternId,
+                name: pattern?.description || patternId.replace(/-/g, ' '),
+                description: pattern?.description,
+                spec: {
+                    category: pattern?.subcategory || 'other' // Use subcategory as category
+                },
+                status: {
+                    baseline: pattern?.riskLevel === 'safe' ? 'widely' :
+                            pattern?.riskLevel === 'experimental' ? 'limited' : 'newly'
+                }
+            };
+        }
+
+        return feature;
+    }
+
+    /**
+     * Overall score of a monorepo: package scores weighted by analyzed files
+     */
+    private rollUpScore(packages: PackageAnalysis[]): number {
+        const files = packages.reduce((sum, pkg) => sum + pkg.analysis.analyzedFiles, 0);
+        if (files === 0) {
+            return 100;
+        }
+        const total = packages.reduce((sum, pkg) => sum + pkg.analysis.compatibilityScore * pkg.analysis.analyzedFiles, 0);
+        return Math.round(total / files);
+    }
+
+    private calculateCompatibility(analysis: ProjectAnalysis, evaluator: CompatibilityEvaluator): void {
+        let totalScore = 0;
+        let featureCount = 0;
+
+        analysis.riskFeatures = [];
+        analysis.safeFeatures = [];
+        analysis.guardedFeatures = [];
+
+        for (const projectFeature of analysis.features.values()) {
+            // Score against the configured browser targets, not the Baseline label
+            const report = evaluator.evaluate(projectFeature.feature);
+            projectFeature.compatibility = report;
+
+            let score = 0;
+            if (projectFeature.allowedUsages === projectFeature.usageCount) {
+                // Every usage is explicitly allowed by the project policy
+                score = 100;
+                analysis.safeFeatures.push(projectFeature);
+            } else if (report.compatibility === 'full') {
+                score = 100;
+                // Supported, but the policy still wants it reported
+                (projectFeature.enforcedSeverity ? analysis.riskFeatures : analysis.safeFeatures).push(projectFeature);
+            } else if (!projectFeature.enforcedSeverity &&
+                (projectFeature.allowedUsages || 0) + (projectFeature.guardedUsages || 0) === projectFeature.usageCount) {
+                // Progressive enhancement: unsupported browsers never run it
+                score = 100;
+                analysis.guardedFeatures.push(projectFeature);
+            } else if (report.compatibility === 'partial') {
+                score = 70;
+                analysis.riskFeatures.push(projectFeature);
+            } else {
+                score = 30;
+                analysis.riskFeatures.push(projectFeature);
+            }
+
+            const weight = Math.log(projectFeature.usageCount + 1);
+            totalScore += score * weight;
+            featureCount += weight;
+        }
+
+        analysis.compatibilityScore = featureCount > 0
+            ? Math.round(totalScore / featureCount)
+            : 100;
+
+        analysis.riskFeatures.sort((a, b) => b.usageCount - a.usageCount);
+        analysis.safeFeatures.sort((a, b) => b.usageCount - a.usageCount);
+        analysis.guardedFeatures.sort((a, b) => b.usageCount - a.usageCount);
+    }
+
+    private generateSuggestions(analysis: ProjectAnalysis): void {
+        const suggestions: string[] = [];
+
+        if (analysis.compatibilityScore >= 90) {
+            suggestions.push('✅ Excellent! Your project has great browser compatibility.');
+        } else if (analysis.compatibilityScore >= 70) {
+            suggestions.push('⚠️ Good compatibility, but some features may need fallbacks.');
+        } else {
+            suggestions.push('❌ Several compatibility issues found. Consider adding polyfills or alternatives.');
+        }
+
+        if (analysis.riskFeatures.length > 0) {
+            suggestions.push(`\n🔍 Found ${analysis.riskFeatures.length} features not fully supported by your targets:`);
+
+            analysis.riskFeatures.slice(0, 5).forEach(rf => {
+                const featureName = rf.feature.name || rf.feature.id;
+                suggestions.push(`  • ${featureName}: Used ${rf.usageCount} times in ${rf.files.length} file(s)`);
+
+                if (rf.compatibility && rf.compatibility.missingBrowsers.length > 0) {
+                    suggestions.push(`    → Missing in: ${rf.compatibility.missingBrowsers.join(', ')}`);
+                }
+
+                const alternatives = this.patternRegistry.getAlternatives(rf.feature.id);
+                if (alternatives.length > 0) {
+                    suggestions.push(`    → Alternatives: ${alternatives.join(', ')}`);
+                }
+            });
+        }
+
+        if (analysis.safeFeatures.length > 0) {
+            suggestions.push(`\n✅ You're safely using ${analysis.safeFeatures.length} widely supported features.`);
+        }
+
+        if (analysis.guardedFeatures.length > 0) {
+            suggestions.push(`\n🛡️ ${analysis.guardedFeatures.length} feature(s) are only used behind @supports or feature detection.`);
+        }
+
+        if (analysis.suppressions.size > 0) {
+            const total = Array.from(analysis.suppressions.values()).reduce((sum, pf) => sum + pf.usageCount, 0);
+            suggestions.push(`\n🔕 ${total} usage(s) of ${analysis.suppressions.size} feature(s) suppressed by baseline-ignore comments`);
+        }
+
+        if (analysis.packages?.length) {
+            suggestions.push(`\n📦 Overall score rolled up from ${analysis.packages.length} package(s), each checked against its own targets:`);
+            analysis.packages.forEach(pkg => {
+                suggestions.push(`  • ${pkg.name}: ${pkg.analysis.compatibilityScore}/100, ${pkg.analysis.riskFeatures.length} risk feature(s) (${pkg.targets})`);
+            });
+        }
+
+        if (analysis.exclusions?.length) {
+            const total = analysis.exclusions.reduce((sum, exclusion) => sum + exclusion.count, 0);
+            suggestions.push(`\n🚫 ${total} file(s) excluded by ${analysis.exclusions.length} glob(s) from include/exclude settings, files.exclude or .gitignore`);
+        }
+
+        const coverage = analysis.totalFiles > 0 ? (analysis.analyzedFiles / analysis.totalFiles) * 100 : 100;
+        suggestions.push(`\n📊 Analyzed ${analysis.analyzedFiles} of ${analysis.totalFiles} files (${coverage.toFixed(1)}% coverage)`);
+
+        analysis.suggestions = suggestions;
+    }
+
+    private createPositionResolver(text: string): (offset: number) => { line: number; character: number } {
+        const lineStarts = [0];
+        for (let i = 0; i < text.length; i++) {
+            if (text.charCodeAt(i) === 10) {
+                lineStarts.push(i + 1);
+            }
+        }
+
+        return (offset: number) => {
+            let low = 0;
+            let high = lineStarts.length - 1;
+            while (low < high) {
+                const mid = (low + high + 1) >> 1;
+                if (lineStarts[mid] <= offset) {
+                    low = mid;
+                } else {
+                    high = mid - 1;
+                }
+            }
+            return { line: low, character: offset - lineStarts[low] };
+        };
+    }
+}
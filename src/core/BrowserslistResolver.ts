@@ -0,0 +1,79 @@
+import browserslist from 'browserslist';
+import { BrowserTarget } from '../types';
+import { compareVersions } from './CompatibilityEvaluator';
+
+/**
+ * Resolves browserslist queries into the concrete browser/version targets the
+ * CompatibilityEvaluator understands. Usage data comes from the caniuse-lite
+ * snapshot bundled with browserslist, so resolution works offline.
+ */
+
+// browserslist agent names -> web-features / settings browser keys
+const BROWSERSLIST_TO_TARGET: Record<string, string> = {
+    'chrome': 'chrome',
+    'and_chr': 'chrome_android',
+    'edge': 'edge',
+    'firefox': 'firefox',
+    'and_ff': 'firefox_android',
+    'safari': 'safari',
+    'ios_saf': 'safari_ios',
+    'opera': 'opera',
+    'samsung': 'samsung_internet'
+};
+
+/**
+ * Resolve a query such as `> 0.5%, last 2 versions, not dead` into the lowest
+ * matched version per browser. Throws on invalid queries.
+ */
+export function resolveBrowserslistQuery(query: string | string[]): BrowserTarget[] {
+    const minimums = new Map<string, string>();
+
+    for (const entry of browserslist(query)) {
+        const [agent, versionRange] = entry.split(' ');
+        const browser = BROWSERSLIST_TO_TARGET[agent];
+        if (!browser || !versionRange || versionRange === 'all') {
+            continue;
+        }
+
+        // Ranged releases such as "ios_saf 18.5-18.7" start at the lower bound
+        const version = versionRange.split('-')[0];
+        const current = minimums.get(browser);
+        if (!current || compareVersions(version, current) < 0) {
+            minimums.set(browser, version);
+        }
+    }
+
+    return Array.from(minimums.entries())
+        .map(([browser, version]) => ({ browser, version }))
+        .sort((a, b) => a.browser.localeCompare(b.browser));
+}
+
+/**
+ * Find the browserslist queries declared for a project directory, either in
+ * `.browserslistrc` / `browserslist` or the `browserslist` key of package.json
+ */
+export function loadBrowserslistConfig(directory: string): string[] | undefined {
+    try {
+        return browserslist.loadConfig({ path: directory });
+    } catch (error) {
+        return undefined;
+    }
+}
+
+/**
+ * The file `loadBrowserslistConfig` reads for a project directory, if any
+ */
+export function findBrowserslistConfigFile(directory: string): string | undefined {
+    try {
+        return browserslist.findConfigFile(directory);
+    } catch (error) {
+        return undefined;
+    }
+}
+
+/**
+ * Format targets for display, e.g. "chrome 109+, safari 16.4+"
+ */
+export function formatTargets(targets: BrowserTarget[]): string {
+    return targets.map(t => `${t.browser} ${t.version}+`).join(', ');
+}
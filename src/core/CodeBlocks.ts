@@ -0,0 +1,84 @@
+import * as ts from 'typescript';
+import { CssBlock, parseStylesheet } from './FallbackFixes';
+import { CssFeatureDetector } from './detectors/CssFeatureDetector';
+import { JsFeatureDetector, parseScript } from './detectors/JsFeatureDetector';
+import { extractEmbeddedRegions, HtmlFeatureDetector } from './detectors/HtmlFeatureDetector';
+
+/**
+ * A CSS rule, at-rule block or function body that feature usages are
+ * summarized by
+ */
+export interface CodeBlock {
+    kind: 'rule' | 'at-rule' | 'function';
+    name: string;                         // Selector, at-rule prelude or function name, as written
+    start: number;
+    end: number;
+}
+
+/**
+ * The rules and at-rule blocks of a stylesheet, or the functions with a
+ * body of a script, outermost first. Markup has those of its `<style>` and
+ * `<script>` blocks. Empty for other languages.
+ */
+export function findCodeBlocks(text: string, languageId: string): CodeBlock[] {
+    if (HtmlFeatureDetector.supportsLanguage(languageId)) {
+        // `style=""` attributes hold declarations only
+        return extractEmbeddedRegions(text)
+            .filter(region => !region.declarations)
+            .flatMap(region => findCodeBlocks(text.slice(region.start, region.end), region.languageId)
+                .map(block => ({ ...block, start: block.start + region.start, end: block.end + region.start })));
+    }
+
+    if (CssFeatureDetector.supportsLanguage(languageId)) {
+        const blocks: CodeBlock[] = [];
+        const visit = (block: CssBlock) => block.children.forEach(child => {
+            blocks.push({ kind: child.kind === 'at' ? 'at-rule' : 'rule', name: child.prelude.trim(), start: child.start, end: child.end });
+            visit(child);
+        });
+        visit(parseStylesheet(text, languageId !== 'css'));
+        return blocks;
+    }
+
+    if (JsFeatureDetector.supportsLanguage(languageId)) {
+        const sourceFile = parseScript(text, languageId);
+        const blocks: CodeBlock[] = [];
+        const visit = (node: ts.Node) => {
+            if (ts.isFunctionLike(node) && 'body' in node && node.body && ts.isBlock(node.body)) {
+                blocks.push({ kind: 'function', name: getFunctionName(node, sourceFile), start: node.getStart(sourceFile), end: node.end });
+            }
+            ts.forEachChild(node, visit);
+        };
+        visit(sourceFile);
+        return blocks;
+    }
+
+    return [];
+}
+
+/**
+ * The innermost block containing an offset
+ */
+export function findInnermostBlock(blocks: CodeBlock[], offset: number): CodeBlock | undefined {
+    let innermost: CodeBlock | undefined;
+    for (const block of blocks) {
+        if (block.start <= offset && offset < block.end && (!innermost || block.start >= innermost.start)) {
+            innermost = block;
+        }
+    }
+    return innermost;
+}
+
+// `render`, `constructor`, or the variable or property an anonymous function is assigned to
+function getFunctionName(node: ts.SignatureDeclaration, sourceFile: ts.SourceFile): string {
+    if (ts.isConstructorDeclaration(node)) {
+        return 'constructor';
+    }
+    if (node.name) {
+        return node.name.getText(sourceFile);
+    }
+    const parent = node.parent;
+    if ((ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent)) && parent.name) {
+        return parent.name.getText(sourceFile);
+    }
+    return '(anonymous)';
+}
@@ -0,0 +1,347 @@
+import webFeaturesData from 'web-features/data.json';
+import { FeaturePatternDefinition } from './FeaturePatternRegistry';
+
+/**
+ * Detection rules derived from web-features `compat_features` (BCD keys), so
+ * coverage follows the installed web-features release:
+ *
+ *   css.properties.aspect-ratio                   -> property matcher
+ *   css.properties.grid-template-columns.masonry  -> value keyword matcher
+ *   css.at-rules.container                        -> at-rule matcher
+ *   css.selectors.focus-visible                   -> pseudo-class / pseudo-element matcher
+ *   css.types.clamp, css.types.color.color-mix    -> value function matcher
+ *   api.ResizeObserver                            -> global identifier matcher
+ *   api.Element.checkVisibility                   -> member matcher, on a receiver whose type resolves to Element
+ *   html.elements.dialog                          -> element matcher
+ *   html.elements.img.loading                     -> element attribute matcher
+ *   html.global_attributes.inert                  -> attribute matcher
+ *
+ * Every matcher has a key such as `css-value:display:grid`. Detectors report
+ * it with each match, which maps the match back to its exact BCD key.
+ *
+ * Features available everywhere since Baseline began (`<div>`, `display`,
+ * `Array`, `lang=`) get no matchers: they cannot fail any target, and
+ * matching them would report dozens of "features" in every file.
+ *
+ * Hand-written definitions keep priority: a generated definition is dropped
+ * when its ID is already known, and loses every matcher a hand-written
+ * definition already claims.
+ */
+
+interface WebFeatureEntry {
+    kind?: string;
+    name?: string;
+    group?: string | string[];
+    status?: { baseline?: 'high' | 'low' | false; baseline_low_date?: string };
+    compat_features?: string[];
+}
+
+/**
+ * Lookups between BCD keys, matcher keys and web-features IDs
+ */
+export interface CompatKeyIndex {
+    matcherToKey: Map<string, string>;    // 'css-value:display:grid' -> 'css.properties.display.grid'
+    keyToFeature: Map<string, string>;    // 'css.properties.display.grid' -> 'grid'
+}
+
+// css.selectors entries that are combinators or simple selectors, not pseudos
+const NON_PSEUDO_SELECTORS = new Set([
+    'attribute', 'child', 'class', 'column', 'descendant', 'id', 'list', 'namespace',
+    'nesting', 'next-sibling', 'subsequent-sibling', 'type', 'universal'
+]);
+
+// css.types entries that name a value type rather than a function
+const CSS_VALUE_TYPES = new Set([
+    'angle', 'angle-percentage', 'basic-shape', 'blend-mode', 'calc-keyword', 'color', 'corner-shape-value',
+    'dashed-function', 'dimension', 'easing-function', 'filter-function', 'flex', 'global_keywords', 'gradient',
+    'image', 'integer', 'length', 'length-percentage', 'line-style', 'number', 'overflow', 'percentage',
+    'position', 'ratio', 'resolution', 'shape', 'string', 'text-edge', 'time', 'transform-function', 'type'
+]);
+
+// css.types entries whose sub-keys are functions, e.g. css.types.color.color-mix
+const CSS_FUNCTION_TYPES = new Set([
+    'basic-shape', 'color', 'easing-function', 'filter-function', 'gradient', 'image', 'transform-function'
+]);
+
+// Interfaces whose members mirror CSS properties (`maxWidth`) rather than APIs
+const STYLE_INTERFACES = /(?:Descriptors|StyleProperties|StyleDeclaration)$/;
+
+// BCD leaves with underscores describe contexts and behaviors (`grid_context`, `scrollend_event`);
+// of those, only input types (`type_date`) are detectable
+const PLAIN_NAME = /^[\w-]+$/;
+const IDENTIFIER = /^[A-Za-z$][\w$]*$/;
+
+// Earliest Baseline date web-features records: supported by every tracked browser from the start
+const BASELINE_START_DATE = '2015-07-29';
+
+let generatedDefinitions: FeaturePatternDefinition[] | undefined;
+let compatKeyIndex: CompatKeyIndex | undefined;
+
+const bundledFeatures = () => webFeaturesData.features as unknown as Record<string, WebFeatureEntry>;
+
+/**
+ * Definitions generated from the bundled web-features data, built once
+ */
+export function getGeneratedPatternDefinitions(): FeaturePatternDefinition[] {
+    if (!generatedDefinitions) {
+        generatedDefinitions = generatePatternDefinitions(bundledFeatures());
+    }
+    return generatedDefinitions;
+}
+
+/**
+ * BCD key lookups for the bundled web-features data, built once
+ */
+export function getCompatKeyIndex(): CompatKeyIndex {
+    if (!compatKeyIndex) {
+        compatKeyIndex = buildCompatKeyIndex(bundledFeatures());
+    }
+    return compatKeyIndex;
+}
+
+/**
+ * Derive one definition per feature from its BCD keys. Features without any
+ * detectable key (HTTP headers, SVG, JS syntax...) are skipped.
+ */
+export function generatePatternDefinitions(features: Record<string, WebFeatureEntry>): FeaturePatternDefinition[] {
+    const definitions: FeaturePatternDefinition[] = [];
+    const taken = new Set<string>();     // A matcher belongs to the first feature that lists it
+
+    Object.entries(features).forEach(([id, feature]) => {
+        if (feature.kind && feature.kind !== 'feature') {
+            return; // Moved or split entries point at other features
+        }
+        if (isCoreFeature(feature)) {
+            return;
+        }
+
+        const definition: FeaturePatternDefinition = {
+            id,
+            aliases: [],
+            patterns: [],
+            category: 'css',
+            subcategory: Array.isArray(feature.group) ? feature.group[0] : feature.group,
+            riskLevel: feature.status?.baseline === 'high' ? 'safe' :
+                feature.status?.baseline === 'low' ? 'moderate' : 'experimental',
+            description: feature.name
+        };
+
+        const matcherKeys: string[] = [];
+        (feature.compat_features || [])
+            .flatMap(key => toMatcherKeys(key))
+            .forEach(key => {
+                if (!taken.has(key)) {
+                    taken.add(key);
+                    matcherKeys.push(key);
+                }
+            });
+        matcherKeys.forEach(key => addMatcher(definition, key));
+
+        if (matcherKeys.length > 0) {
+            definition.category = matcherKeys[0].startsWith('css-') ? 'css'
+                : matcherKeys[0].startsWith('js-') ? 'js' : 'html';
+            definitions.push(definition);
+        }
+    });
+
+    return definitions;
+}
+
+/**
+ * Generated definitions that may be registered next to the hand-written
+ * ones, without IDs or matchers the hand-written definitions already own
+ */
+export function mergeGeneratedDefinitions(
+    handWritten: FeaturePatternDefinition[],
+    generated: FeaturePatternDefinition[]
+): FeaturePatternDefinition[] {
+    const knownIds = new Set<string>();
+    const claimed = new Set<string>();
+    handWritten.forEach(definition => {
+        [definition.id, ...definition.aliases].forEach(id => knownIds.add(id.toLowerCase()));
+        getMatcherKeys(definition).forEach(key => claimed.add(key));
+    });
+
+    return generated
+        .filter(definition => !knownIds.has(definition.id.toLowerCase()))
+        .map(definition => {
+            const pruned: FeaturePatternDefinition = { ...definition, css: undefined, js: undefined, html: undefined };
+            getMatcherKeys(definition)
+                .filter(key => !claimed.has(key))
+                .forEach(key => addMatcher(pruned, key));
+            return pruned;
+        })
+        .filter(definition => getMatcherKeys(definition).length > 0);
+}
+
+/**
+ * Matcher keys of a definition, in the format detectors report them
+ */
+export function getMatcherKeys(definition: FeaturePatternDefinition): string[] {
+    const { css, js, html } = definition;
+    return [
+        ...(css?.properties || []).map(name => `css-property:${name}`),
+        ...(css?.values || []).flatMap(({ properties, keywords }) =>
+            properties.flatMap(property => keywords.map(keyword => `css-value:${property}:${keyword}`))),
+        ...(css?.atRules || []).map(name => `css-at-rule:${name}`),
+        ...(css?.functions || []).map(name => `css-function:${name}`),
+        ...(css?.pseudoClasses || []).map(name => `css-pseudo-class:${name}`),
+        ...(css?.pseudoElements || []).map(name => `css-pseudo-element:${name}`),
+        ...(css?.customProperties ? ['css-custom-properties'] : []),
+        ...(js?.globals || []).map(name => `js-global:${name}`),
+        ...(js?.extends || []).map(name => `js-global:${name}`),
+        ...(js?.members || []).map(name => `js-member:${name}`),
+        ...(html?.elements || []).map(name => `html-element:${name}`),
+        ...(html?.attributes || []).map(spec => `html-attribute:${spec}`)
+    ];
+}
+
+function buildCompatKeyIndex(features: Record<string, WebFeatureEntry>): CompatKeyIndex {
+    const index: CompatKeyIndex = { matcherToKey: new Map(), keyToFeature: new Map() };
+
+    Object.entries(features).forEach(([id, feature]) => {
+        (feature.compat_features || []).forEach(key => {
+            index.keyToFeature.set(key, id);
+            toMatcherKeys(key).forEach(matcherKey => {
+                if (!index.matcherToKey.has(matcherKey)) {
+                    index.matcherToKey.set(matcherKey, key);
+                }
+            });
+        });
+    });
+
+    return index;
+}
+
+function isCoreFeature(feature: WebFeatureEntry): boolean {
+    const lowDate = feature.status?.baseline_low_date;
+    // Dates may carry a `≤` prefix for ranges
+    return feature.status?.baseline === 'high' && !!lowDate && lowDate.replace(/^≤/, '') <= BASELINE_START_DATE;
+}
+
+// `Owner.member` of a member key; the detector only matches it on a receiver resolving to the owner
+function getMemberName(key: string): string | undefined {
+    const parts = key.split('.');
+    const isApiMember = parts[0] === 'api' && parts.length === 3;
+    const isBuiltinMember = parts[0] === 'javascript' && parts[1] === 'builtins' && parts.length === 4;
+    if (!isApiMember && !isBuiltinMember) {
+        return undefined;
+    }
+
+    const owner = parts[parts.length - 2];
+    const member = parts[parts.length - 1];
+    // `api.ResizeObserver.ResizeObserver` is the constructor, already a global
+    if (member === owner || !IDENTIFIER.test(member) || STYLE_INTERFACES.test(owner)) {
+        return undefined;
+    }
+    return `${owner}.${member}`;
+}
+
+// Matcher keys a BCD key can be detected by; empty when it is not detectable
+function toMatcherKeys(key: string): string[] {
+    const parts = key.split('.');
+    if (!parts.slice(1).every(part => PLAIN_NAME.test(part))) {
+        return [];
+    }
+    const [root, area, name, detail] = parts;
+
+    if (root === 'css' && area === 'properties' && parts.length === 3) {
+        return [name === 'custom-property' ? 'css-custom-properties' : `css-property:${name}`];
+    }
+    if (root === 'css' && area === 'properties' && parts.length === 4 && !detail.includes('_')) {
+        return [`css-value:${name}:${detail}`];
+    }
+    if (root === 'css' && area === 'at-rules' && parts.length === 3) {
+        return [`css-at-rule:${name}`];
+    }
+    if (root === 'css' && area === 'selectors' && parts.length === 3 && !NON_PSEUDO_SELECTORS.has(name)) {
+        // BCD does not tell pseudo-classes from pseudo-elements; `:before` is valid too
+        return [`css-pseudo-class:${name}`, `css-pseudo-element:${name}`];
+    }
+    if (root === 'css' && area === 'types' && parts.length === 3 && !CSS_VALUE_TYPES.has(name)) {
+        return [`css-function:${name}`];
+    }
+    if (root === 'css' && area === 'types' && parts.length === 4 && CSS_FUNCTION_TYPES.has(name) && !detail.includes('_')) {
+        return [`css-function:${detail}`];
+    }
+
+    if ((root === 'api' && parts.length === 2) || (root === 'javascript' && area === 'builtins' && parts.length === 3)) {
+        const global = parts[parts.length - 1];
+        return IDENTIFIER.test(global) ? [`js-global:${global}`] : [];
+    }
+    const member = getMemberName(key);
+    if (member) {
+        return [`js-member:${member}`];
+    }
+
+    if (root === 'html' && area === 'elements' && parts.length === 3) {
+        return [`html-element:${name}`];
+    }
+    if (root === 'html' && area === 'elements' && parts.length === 4) {
+        const inputType = /^type_([\w-]+)$/.exec(detail);
+        if (inputType) {
+            return [`html-attribute:${name}[type=${inputType[1]}]`];
+        }
+        return detail.includes('_') ? [] : [`html-attribute:${name}[${detail}]`];
+    }
+    if (root === 'html' && area === 'global_attributes' && parts.length === 3) {
+        return [`html-attribute:${name}`];
+    }
+
+    return [];
+}
+
+// Add the matcher behind a matcher key to a definition
+function addMatcher(definition: FeaturePatternDefinition, matcherKey: string): void {
+    const [kind, ...rest] = matcherKey.split(':');
+    const name = rest.join(':');
+
+    if (kind.startsWith('css-')) {
+        const css = definition.css = definition.css || {};
+        switch (kind) {
+            case 'css-property':
+                css.properties = [...(css.properties || []), name];
+                break;
+            case 'css-value': {
+                const [property, keyword] = rest;
+                const values = css.values = css.values || [];
+                const existing = values.find(value => value.properties.length === 1 && value.properties[0] === property);
+                if (existing) {
+                    existing.keywords.push(keyword);
+                } else {
+                    values.push({ properties: [property], keywords: [keyword] });
+                }
+                break;
+            }
+            case 'css-at-rule':
+                css.atRules = [...(css.atRules || []), name];
+                break;
+            case 'css-function':
+                css.functions = [...(css.functions || []), name];
+                break;
+            case 'css-pseudo-class':
+                css.pseudoClasses = [...(css.pseudoClasses || []), name];
+                break;
+            case 'css-pseudo-element':
+                css.pseudoElements = [...(css.pseudoElements || []), name];
+                break;
+            case 'css-custom-properties':
+                css.customProperties = true;
+                break;
+        }
+    } else if (kind.startsWith('js-')) {
+        const js = definition.js = definition.js || {};
+        if (kind === 'js-global') {
+            js.globals = [...(js.globals || []), name];
+        } else if (kind === 'js-member') {
+            js.members = [...(js.members || []), name];
+        }
+    } else if (kind.startsWith('html-')) {
+        const html = definition.html = definition.html || {};
+        if (kind === 'html-element') {
+            html.elements = [...(html.elements || []), name];
+        } else {
+            html.attributes = [...(html.attributes || []), name];
+        }
+    }
+}
@@ -0,0 +1,260 @@
+import { BaselineTarget, BrowserTarget, CompatibilityReport, Feature } from '../types';
+
+/**
+ * Default targets, mirroring the `baseline-navigator.minimumBrowserVersions` setting
+ */
+export const DEFAULT_BROWSER_TARGETS: BrowserTarget[] = [
+    { browser: 'chrome', version: '90' },
+    { browser: 'firefox', version: '88' },
+    { browser: 'safari', version: '14' },
+    { browser: 'edge', version: '90' }
+];
+
+// Browsers that have support data in web-features. Other configured browsers
+// (e.g. opera, samsung_internet) cannot be evaluated and are skipped.
+const SUPPORT_DATA_BROWSERS = new Set([
+    'chrome', 'chrome_android', 'edge', 'firefox', 'firefox_android', 'safari', 'safari_ios'
+]);
+
+export function hasSupportData(browser: string): boolean {
+    return SUPPORT_DATA_BROWSERS.has(browser);
+}
+
+/**
+ * Compare dotted version strings numerically. Ranged values such as "≤79"
+ * are treated as their upper bound.
+ */
+export function compareVersions(a: string, b: string): number {
+    const parse = (version: string) => version.replace(/^≤/, '').split('.').map(part => parseInt(part, 10) || 0);
+    const left = parse(a);
+    const right = parse(b);
+
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        const diff = (left[i] || 0) - (right[i] || 0);
+        if (diff !== 0) {
+            return diff;
+        }
+    }
+    return 0;
+}
+
+// A feature becomes "widely available" 30 months after it is newly available
+const WIDELY_AVAILABLE_MONTHS = 30;
+
+/**
+ * Parse a web-features Baseline date. Ranged values such as "≤2020-03-24"
+ * are treated as the given date.
+ */
+export function parseBaselineDate(date: string | undefined): Date | undefined {
+    if (!date) {
+        return undefined;
+    }
+    const parsed = new Date(`${date.replace(/^≤/, '')}T00:00:00Z`);
+    return isNaN(parsed.getTime()) ? undefined : parsed;
+}
+
+/**
+ * Date a feature is (or is projected to become) widely available
+ */
+export function getWidelyAvailableDate(feature: Feature): Date | undefined {
+    const high = parseBaselineDate(feature.status?.baseline_high_date);
+    if (high) {
+        return high;
+    }
+
+    const low = parseBaselineDate(feature.status?.baseline_low_date);
+    if (!low) {
+        return undefined;
+    }
+    const projected = new Date(low);
+    projected.setUTCMonth(projected.getUTCMonth() + WIDELY_AVAILABLE_MONTHS);
+    return projected;
+}
+
+export type BaselineStatus = 'widely' | 'newly' | 'limited' | 'unknown';
+
+/**
+ * Baseline status of a feature, whichever vocabulary its data uses
+ */
+export function getBaselineStatus(feature: Feature): BaselineStatus {
+    const baseline = feature.status?.baseline ?? feature.status?.baseline_status;
+    switch (baseline) {
+        case 'widely':
+        case 'high':
+            return 'widely';
+        case 'newly':
+        case 'low':
+            return 'newly';
+        case false:
+        case 'limited':
+        case 'false':
+            return 'limited';
+        default:
+            return 'unknown';
+    }
+}
+
+/**
+ * Human readable label for a Baseline target, e.g. "Baseline 2023"
+ */
+export function describeBaselineTarget(target: BaselineTarget): string {
+    return target.kind === 'year'
+        ? `Baseline ${target.year}`
+        : `Baseline widely available${target.asOf ? ` as of ${target.asOf}` : ''}`;
+}
+
+/**
+ * Evaluates features against concrete browser targets using the per-browser
+ * `status.support` versions, instead of the Baseline label alone
+ */
+export class CompatibilityEvaluator {
+    private cache: Map<string, CompatibilityReport> = new Map();
+    private baselineTarget: BaselineTarget | undefined;
+
+    constructor(private targets: BrowserTarget[] = DEFAULT_BROWSER_TARGETS) {}
+
+    public getTargets(): BrowserTarget[] {
+        return [...this.targets];
+    }
+
+    public setTargets(targets: BrowserTarget[]): void {
+        this.targets = targets;
+        this.cache.clear();
+    }
+
+    public getBaselineTarget(): BaselineTarget | undefined {
+        return this.baselineTarget;
+    }
+
+    /**
+     * Switch to Baseline targeting: features are judged by their Baseline
+     * dates instead of browser versions. Pass undefined to use browsers again.
+     */
+    public setBaselineTarget(target: BaselineTarget | undefined): void {
+        this.baselineTarget = target;
+        this.cache.clear();
+    }
+
+    public evaluate(feature: Feature): CompatibilityReport {
+        const cached = this.cache.get(feature.id);
+        if (cached && cached.feature === feature) {
+            return cached;
+        }
+
+        const report = this.buildReport(feature);
+        this.cache.set(feature.id, report);
+        return report;
+    }
+
+    private buildReport(feature: Feature): CompatibilityReport {
+        if (this.baselineTarget) {
+            return this.reportFromBaselineTarget(feature, this.baselineTarget);
+        }
+
+        const support = feature.status?.support;
+        const evaluable = this.targets.filter(t => hasSupportData(t.browser));
+
+        // Without version data fall back to the Baseline label
+        if (!support || evaluable.length === 0) {
+            return this.reportFromBaseline(feature, evaluable);
+        }
+
+        const missingBrowsers: string[] = [];
+        const requirements: string[] = [];
+
+        evaluable.forEach(target => {
+            const supportedSince = support[target.browser];
+
+            if (!supportedSince) {
+                missingBrowsers.push(target.browser);
+                requirements.push(`${target.browser} (not supported)`);
+            } else if (compareVersions(supportedSince, target.version || '0') > 0) {
+                missingBrowsers.push(target.browser);
+                requirements.push(`${target.browser} ${target.version} (needs ${supportedSince}+)`);
+            }
+        });
+
+        const compatibility = missingBrowsers.length === 0 ? 'full' :
+            missingBrowsers.length === evaluable.length ? 'none' : 'partial';
+
+        return {
+            feature,
+            compatibility,
+            missingBrowsers,
+            suggestion: requirements.length > 0
+                ? `Not supported by your targets: ${requirements.join(', ')}`
+                : undefined
+        };
+    }
+
+    private reportFromBaselineTarget(feature: Feature, target: BaselineTarget): CompatibilityReport {
+        const label = describeBaselineTarget(target);
+        const baseline = feature.status?.baseline;
+        const lowDate = parseBaselineDate(feature.status?.baseline_low_date);
+
+        // Synthetic features only carry a label
+        if (!lowDate && (baseline === 'widely' || baseline === 'high')) {
+            return { feature, compatibility: 'full', missingBrowsers: [] };
+        }
+
+        // Not Baseline at all: no date can satisfy the target
+        if (!lowDate) {
+            const isLimited = baseline === false || baseline === 'limited';
+            return {
+                feature,
+                compatibility: isLimited ? 'none' : 'partial',
+                missingBrowsers: [],
+                suggestion: isLimited
+                    ? `Not yet Baseline; your target is ${label}`
+                    : `No Baseline data available; your target is ${label}`
+            };
+        }
+
+        if (target.kind === 'year') {
+            const year = lowDate.getUTCFullYear();
+            return year <= target.year
+                ? { feature, compatibility: 'full', missingBrowsers: [] }
+                : {
+                    feature,
+                    compatibility: 'partial',
+                    missingBrowsers: [],
+                    suggestion: `Became Baseline in ${year}; your target is ${label}`
+                };
+        }
+
+        const asOf = parseBaselineDate(target.asOf) || new Date();
+        const widelyDate = getWidelyAvailableDate(feature)!;
+        const widelyLabel = widelyDate.toISOString().slice(0, 10);
+        return widelyDate.getTime() <= asOf.getTime()
+            ? { feature, compatibility: 'full', missingBrowsers: [] }
+            : {
+                feature,
+                compatibility: 'partial',
+                missingBrowsers: [],
+                suggestion: `Widely available on ${widelyLabel}${feature.status?.baseline_high_date ? '' : ' (projected)'}; your target is ${label}`
+            };
+    }
+
+    private reportFromBaseline(feature: Feature, evaluable: BrowserTarget[]): CompatibilityReport {
+        const baseline = feature.status?.baseline;
+        const browsers = evaluable.map(t => t.browser);
+
+        if (baseline === 'widely' || baseline === 'high') {
+            return { feature, compatibility: 'full', missingBrowsers: [] };
+        }
+        if (baseline === 'limited' || baseline === false) {
+            return {
+                feature,
+                compatibility: 'none',
+                missingBrowsers: browsers,
+                suggestion: 'No browser support data available; feature has limited support'
+            };
+        }
+        return {
+            feature,
+            compatibility: 'partial',
+            missingBrowsers: [],
+            suggestion: 'No browser support data available for your targets'
+        };
+    }
+}
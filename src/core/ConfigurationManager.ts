@@ -1,41 +1,81 @@
 import * as vscode from 'vscode';
+import { RiskTolerance, shouldWarnForReport } from './RiskPolicy';
+import { CompatibilityEvaluator, describeBaselineTarget } from './CompatibilityEvaluator';
+import { findBrowserslistConfigFile, formatTargets, loadBrowserslistConfig, resolveBrowserslistQuery } from './BrowserslistResolver';
+import { POLICY_FILE_NAME, PolicyError, PolicyRuleAction, ProjectPolicy } from './ProjectPolicy';
+import browserslist from 'browserslist';
+import { BaselineTarget, BrowserTarget, CompatibilityReport, Feature } from '../types';
 
-export interface BrowserTarget {
-    browser: string;
-    version: string;
-}
+export { BrowserTarget } from '../types';
+
+export type TargetMode = 'browsers' | 'baselineYear' | 'widelyAvailable';
+
+export type DiagnosticsScope = 'openFiles' | 'workspace';
+
+export type RunTrigger = 'onType' | 'onSave' | 'manual';
+
+export type InlayHintsMode = 'all' | 'notWidelyAvailable' | 'off';
 
 export interface BaselineConfiguration {
     enabled: boolean;
     checkOnSave: boolean;
+    run: RunTrigger;
+    targetMode: TargetMode;
+    baselineYear: number;
+    widelyAvailableAsOf: string;
     targetBrowsers: string[];
     minimumBrowserVersions: Record<string, string>;
-    riskTolerance: 'strict' | 'moderate' | 'permissive';
+    browserslist: string;
+    detectBrowserslist: boolean;
+    riskTolerance: RiskTolerance;
     showRecommendations: boolean;
     maxRecommendations: number;
     diagnosticSeverity: Record<string, string>;
     enableHoverInfo: boolean;
     enableCodeActions: boolean;
+    enableCompletions: boolean;
+    inlayHints: InlayHintsMode;
+    codeLens: boolean;
     cacheTimeout: number;
+    include: string[];
+    exclude: string[];
+    useGitignore: boolean;
+    diagnosticsScope: DiagnosticsScope;
 }
 
+/**
+ * Where the active browser targets came from
+ */
+export type TargetSource = 'settings' | 'browserslist-setting' | 'browserslist-workspace' | 'policy';
+
 export class ConfigurationManager {
     private static instance: ConfigurationManager;
     private configuration: BaselineConfiguration;
+    private browserTargets: BrowserTarget[] = [];
+    private targetSource: TargetSource = 'settings';
+    private policy: ProjectPolicy | undefined;
+    private evaluator: CompatibilityEvaluator;
     private onDidChangeEmitter = new vscode.EventEmitter<BaselineConfiguration>();
     
     public readonly onDidChange = this.onDidChangeEmitter.event;
     
     private constructor() {
+        this.policy = this.loadPolicy();
         this.configuration = this.loadConfiguration();
+        this.resolveBrowserTargets();
+        this.evaluator = new CompatibilityEvaluator(this.browserTargets);
+        this.evaluator.setBaselineTarget(this.getBaselineTarget());
         
         // Watch for configuration changes
         vscode.workspace.onDidChangeConfiguration(e => {
             if (e.affectsConfiguration('baseline-navigator')) {
                 this.configuration = this.loadConfiguration();
-                this.onDidChangeEmitter.fire(this.configuration);
+                this.refreshTargets();
             }
         });
+        
+        // Watch workspace browserslist and policy declarations
+        this.watchBrowserslistFiles();
     }
     
     public static getInstance(): ConfigurationManager {
@@ -51,6 +91,10 @@ export class ConfigurationManager {
         return {
             enabled: config.get('enabled', true),
             checkOnSave: config.get('checkOnSave', true),
+            run: this.loadRunTrigger(config),
+            targetMode: config.get('targetMode', 'browsers'),
+            baselineYear: config.get('baselineYear', 2024),
+            widelyAvailableAsOf: config.get('widelyAvailableAsOf', ''),
             targetBrowsers: config.get('targetBrowsers', ['chrome', 'firefox', 'safari', 'edge']),
             minimumBrowserVersions: config.get('minimumBrowserVersions', {
                 chrome: '90',
@@ -58,7 +102,10 @@ export class ConfigurationManager {
                 safari: '14',
                 edge: '90'
             }),
-            riskTolerance: config.get('riskTolerance', 'moderate'),
+            browserslist: config.get('browserslist', ''),
+            detectBrowserslist: config.get('detectBrowserslist', true),
+            // A committed project policy wins over personal settings
+            riskTolerance: this.policy?.config.riskTolerance || config.get('riskTolerance', 'moderate'),
             showRecommendations: config.get('showRecommendations', true),
             maxRecommendations: config.get('maxRecommendations', 5),
             diagnosticSeverity: config.get('diagnosticSeverity', {
@@ -67,10 +114,28 @@ export class ConfigurationManager {
             }),
             enableHoverInfo: config.get('enableHoverInfo', true),
             enableCodeActions: config.get('enableCodeActions', true),
-            cacheTimeout: config.get('cacheTimeout', 300000)
+            enableCompletions: config.get('enableCompletions', true),
+            inlayHints: config.get('inlayHints', 'notWidelyAvailable'),
+            codeLens: config.get('codeLens', true),
+            cacheTimeout: config.get('cacheTimeout', 300000),
+            include: config.get('include', []),
+            exclude: config.get('exclude', []),
+            useGitignore: config.get('useGitignore', true),
+            diagnosticsScope: config.get('diagnosticsScope', 'openFiles')
         };
     }
     
+    private loadRunTrigger(config: vscode.WorkspaceConfiguration): RunTrigger {
+        const run = config.inspect<RunTrigger>('run');
+        const configured = run?.workspaceFolderValue ?? run?.workspaceValue ?? run?.globalValue;
+        if (configured) {
+            return configured;
+        }
+
+        // Turning off the older checkOnSave setting meant checking on demand only
+        return config.get('checkOnSave', true) ? 'onType' : 'manual';
+    }
+
     public getConfiguration(): BaselineConfiguration {
         return { ...this.configuration };
     }
@@ -80,30 +145,176 @@ export class ConfigurationManager {
         await config.update(key, value, target);
     }
     
+    /**
+     * Resolved browser targets shared by hover, diagnostics and project analysis
+     */
     public getBrowserTargets(): BrowserTarget[] {
-        return this.configuration.targetBrowsers.map(browser => ({
-            browser,
-            version: this.configuration.minimumBrowserVersions[browser] || '0'
-        }));
+        return [...this.browserTargets];
+    }
+    
+    public getTargetSource(): TargetSource {
+        return this.targetSource;
     }
     
-    public shouldWarnForFeature(baseline: string | boolean | undefined): boolean {
-        const tolerance = this.configuration.riskTolerance;
+    /**
+     * Active Baseline policy, or undefined when targeting browser versions
+     */
+    public getBaselineTarget(): BaselineTarget | undefined {
+        const policyTarget = this.policy?.getBaselineTarget();
+        if (policyTarget) {
+            return policyTarget;
+        }
         
-        if (baseline === 'widely' || baseline === 'high') {
-            return false; // Never warn for widely supported
+        switch (this.configuration.targetMode) {
+            case 'baselineYear':
+                return { kind: 'year', year: this.configuration.baselineYear };
+            case 'widelyAvailable':
+                return { kind: 'widely', asOf: this.configuration.widelyAvailableAsOf || undefined };
+            default:
+                return undefined;
+        }
+    }
+    
+    /**
+     * Short label for the active target, e.g. "Baseline 2023" or "chrome 90+, safari 14+"
+     */
+    public describeTarget(): string {
+        const baselineTarget = this.getBaselineTarget();
+        return baselineTarget ? describeBaselineTarget(baselineTarget) : formatTargets(this.browserTargets);
+    }
+    
+    /**
+     * Project policy from `.baselinerc.json` or package.json, if any
+     */
+    public getPolicy(): ProjectPolicy | undefined {
+        return this.policy;
+    }
+    
+    /**
+     * Policy rule for a feature in a document. `featureIds` are all IDs the
+     * match is known by, e.g. the web-features ID and the pattern ID.
+     */
+    public getPolicyRule(featureIds: string[], uri: vscode.Uri): PolicyRuleAction | undefined {
+        if (!this.policy) {
+            return undefined;
+        }
+        return this.policy.getRule(featureIds, this.policy.relativePath(uri.fsPath));
+    }
+    
+    private loadPolicy(): ProjectPolicy | undefined {
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            try {
+                const policy = ProjectPolicy.load(folder.uri.fsPath);
+                if (policy) {
+                    return policy;
+                }
+            } catch (error) {
+                const errorMessage = error instanceof PolicyError ? error.message : String(error);
+                vscode.window.showWarningMessage(`Ignoring invalid Baseline policy: ${errorMessage}`);
+            }
+        }
+        return undefined;
+    }
+    
+    private resolveBrowserTargets(): void {
+        // 1. Targets committed in the project policy
+        const policyTargets = this.policy?.getBrowserTargets();
+        if (policyTargets) {
+            this.setResolvedTargets(policyTargets, 'policy');
+            return;
         }
+        if (this.policy?.config.browserslist) {
+            try {
+                this.setResolvedTargets(resolveBrowserslistQuery(this.policy.config.browserslist), 'policy');
+                return;
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                vscode.window.showWarningMessage(`Invalid browserslist query in ${this.policy.source}: ${errorMessage}`);
+            }
+        }
+        
+        const query = this.configuration.browserslist.trim();
         
-        if (baseline === 'limited' || baseline === false) {
-            return true; // Always warn for limited support
+        // 2. Explicit query in settings
+        if (query) {
+            try {
+                this.setResolvedTargets(resolveBrowserslistQuery(query), 'browserslist-setting');
+                return;
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                vscode.window.showWarningMessage(`Invalid browserslist query "${query}": ${errorMessage}`);
+            }
         }
         
-        if (baseline === 'newly' || baseline === 'low') {
-            // Warn based on risk tolerance
-            return tolerance === 'strict';
+        // 3. Browserslist declared by the workspace
+        if (this.configuration.detectBrowserslist) {
+            for (const folder of vscode.workspace.workspaceFolders || []) {
+                const queries = loadBrowserslistConfig(folder.uri.fsPath);
+                if (!queries) {
+                    continue;
+                }
+                try {
+                    this.setResolvedTargets(resolveBrowserslistQuery(queries), 'browserslist-workspace');
+                    return;
+                } catch (error) {
+                    // Fall through to explicit settings
+                }
+            }
         }
         
-        return tolerance !== 'permissive'; // Unknown features
+        // 4. targetBrowsers / minimumBrowserVersions settings
+        this.setResolvedTargets(this.configuration.targetBrowsers.map(browser => ({
+            browser,
+            version: this.configuration.minimumBrowserVersions[browser] || '0'
+        })), 'settings');
+    }
+    
+    private setResolvedTargets(targets: BrowserTarget[], source: TargetSource): void {
+        this.browserTargets = targets;
+        this.targetSource = source;
+    }
+    
+    private refreshTargets(): void {
+        this.resolveBrowserTargets();
+        this.evaluator.setTargets(this.browserTargets);
+        this.evaluator.setBaselineTarget(this.getBaselineTarget());
+        this.onDidChangeEmitter.fire(this.configuration);
+    }
+    
+    private watchBrowserslistFiles(): void {
+        const onChange = (uri: vscode.Uri) => {
+            if (uri.fsPath.includes('node_modules')) {
+                return;
+            }
+            browserslist.clearCaches();
+            this.policy = this.loadPolicy();
+            this.configuration = this.loadConfiguration();
+            this.refreshTargets();
+        };
+        
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            const watcher = vscode.workspace.createFileSystemWatcher(
+                new vscode.RelativePattern(folder, `{.browserslistrc,browserslist,package.json,${POLICY_FILE_NAME}}`)
+            );
+            watcher.onDidCreate(onChange);
+            watcher.onDidChange(onChange);
+            watcher.onDidDelete(onChange);
+        }
+    }
+    
+    public getCompatibilityEvaluator(): CompatibilityEvaluator {
+        return this.evaluator;
+    }
+    
+    /**
+     * Evaluate a feature against the configured browser targets
+     */
+    public evaluateFeature(feature: Feature): CompatibilityReport {
+        return this.evaluator.evaluate(feature);
+    }
+    
+    public shouldWarnForFeature(feature: Feature): boolean {
+        return shouldWarnForReport(this.evaluateFeature(feature), this.configuration.riskTolerance);
     }
     
     public getDiagnosticSeverity(baseline: string): vscode.DiagnosticSeverity {
@@ -131,6 +342,16 @@ export class ConfigurationManager {
                 description: 'Configure which browsers to target',
                 action: () => this.configureBrowsers()
             },
+            {
+                label: '📅 Baseline Target',
+                description: 'Target a Baseline year or "widely available" instead of browser versions',
+                action: () => this.configureBaselineTarget()
+            },
+            {
+                label: '📋 Browserslist Query',
+                description: 'Use a browserslist query such as "> 0.5%, last 2 versions, not dead"',
+                action: () => this.configureBrowserslist()
+            },
             {
                 label: '⚠️ Risk Tolerance',
                 description: 'Set how strict compatibility warnings should be',
@@ -158,6 +379,10 @@ export class ConfigurationManager {
     }
     
     private async configureBrowsers(): Promise<void> {
+        if (!await this.confirmBrowserSettings()) {
+            return;
+        }
+        
         const allBrowsers = [
             { label: 'Chrome', value: 'chrome' },
             { label: 'Firefox', value: 'firefox' },
@@ -207,6 +432,145 @@ export class ConfigurationManager {
         }
     }
     
+    /**
+     * Target browsers only apply when no policy or browserslist sets the
+     * targets. Otherwise name the source that wins and offer to edit it;
+     * true to edit the settings anyway.
+     */
+    private async confirmBrowserSettings(): Promise<boolean> {
+        const source = this.getTargetSource();
+        if (source === 'settings') {
+            return true;
+        }
+        
+        const file = this.getTargetSourceFile();
+        const owner = source === 'browserslist-setting'
+            ? `the browserslist setting "${this.configuration.browserslist}"`
+            : file ? vscode.workspace.asRelativePath(file) : 'the workspace browserslist config';
+        const editSource = source === 'browserslist-setting' ? 'Edit Query' : file ? 'Open File' : undefined;
+        const actions = editSource ? [editSource, 'Edit Anyway'] : ['Edit Anyway'];
+        
+        const choice = await vscode.window.showWarningMessage(
+            `Browser targets come from ${owner} (${this.describeTarget()}), so target browser settings have no effect.`,
+            ...actions
+        );
+        if (choice === 'Edit Query') {
+            await this.configureBrowserslist();
+        } else if (choice === 'Open File' && file) {
+            await vscode.window.showTextDocument(vscode.Uri.file(file));
+        }
+        return choice === 'Edit Anyway';
+    }
+    
+    // The policy or browserslist file the targets come from
+    private getTargetSourceFile(): string | undefined {
+        switch (this.targetSource) {
+            case 'policy':
+                return this.policy?.source.replace(/#baseline$/, '');
+            case 'browserslist-workspace':
+                for (const folder of vscode.workspace.workspaceFolders || []) {
+                    if (loadBrowserslistConfig(folder.uri.fsPath)) {
+                        return findBrowserslistConfigFile(folder.uri.fsPath);
+                    }
+                }
+                return undefined;
+            default:
+                return undefined;
+        }
+    }
+    
+    private async configureBaselineTarget(): Promise<void> {
+        const options = [
+            {
+                label: '🎯 Browser Versions',
+                description: 'Use target browsers, minimum versions or browserslist',
+                value: 'browsers' as TargetMode
+            },
+            {
+                label: '📅 Baseline Year',
+                description: 'Accept features that became Baseline in or before a year, e.g. Baseline 2023',
+                value: 'baselineYear' as TargetMode
+            },
+            {
+                label: '✅ Widely Available',
+                description: 'Accept features widely available as of a date (default: today)',
+                value: 'widelyAvailable' as TargetMode
+            }
+        ];
+        
+        const selected = await vscode.window.showQuickPick(options, {
+            placeHolder: 'How should compatibility targets be defined?'
+        });
+        
+        if (!selected) {
+            return;
+        }
+        
+        if (selected.value === 'baselineYear') {
+            const currentYear = new Date().getFullYear();
+            const year = await vscode.window.showInputBox({
+                prompt: 'Baseline year to target',
+                value: String(this.configuration.baselineYear),
+                validateInput: (value) => {
+                    const num = parseInt(value);
+                    if (!/^\d{4}$/.test(value) || num < 2015 || num > currentYear) {
+                        return `Please enter a year between 2015 and ${currentYear}`;
+                    }
+                    return null;
+                }
+            });
+            
+            if (!year) {
+                return;
+            }
+            await this.updateConfiguration('baselineYear', parseInt(year));
+        } else if (selected.value === 'widelyAvailable') {
+            const asOf = await vscode.window.showInputBox({
+                prompt: 'Widely available as of date (YYYY-MM-DD), leave empty for today',
+                value: this.configuration.widelyAvailableAsOf,
+                validateInput: (value) => {
+                    if (!value || /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+                        return null;
+                    }
+                    return 'Please enter a date as YYYY-MM-DD';
+                }
+            });
+            
+            if (asOf === undefined) {
+                return;
+            }
+            await this.updateConfiguration('widelyAvailableAsOf', asOf);
+        }
+        
+        await this.updateConfiguration('targetMode', selected.value);
+        vscode.window.showInformationMessage(`Compatibility target set to ${this.describeTarget()}`);
+    }
+    
+    private async configureBrowserslist(): Promise<void> {
+        const query = await vscode.window.showInputBox({
+            prompt: 'Browserslist query (leave empty to use the workspace .browserslistrc or target browsers)',
+            value: this.configuration.browserslist,
+            validateInput: (value) => {
+                if (!value.trim()) {
+                    return null;
+                }
+                try {
+                    resolveBrowserslistQuery(value);
+                    return null;
+                } catch (error) {
+                    return error instanceof Error ? error.message : String(error);
+                }
+            }
+        });
+        
+        if (query !== undefined) {
+            await this.updateConfiguration('browserslist', query.trim());
+            vscode.window.showInformationMessage(query.trim()
+                ? `Browser targets now follow "${query.trim()}"`
+                : 'Browserslist override cleared');
+        }
+    }
+    
     private async configureRiskTolerance(): Promise<void> {
         const options = [
             {
@@ -232,6 +596,10 @@ export class ConfigurationManager {
         
         if (selected) {
             await this.updateConfiguration('riskTolerance', selected.value);
+            if (this.policy?.config.riskTolerance) {
+                vscode.window.showInformationMessage(`Risk tolerance saved, but ${this.policy.source} sets "${this.policy.config.riskTolerance}" for this project`);
+                return;
+            }
             vscode.window.showInformationMessage(`Risk tolerance set to ${selected.label}`);
         }
     }
@@ -0,0 +1,642 @@
+import { FeatureMatch } from './FeaturePatternRegistry';
+import { CssFeatureDetector, isDelim, opens, Token, tokenize } from './detectors/CssFeatureDetector';
+
+/**
+ * Replace `start`..`end` (offsets into the original text) with `newText`
+ */
+export interface TextEdit {
+    start: number;
+    end: number;
+    newText: string;
+}
+
+/**
+ * A rewrite that keeps a usage working in browsers without the feature
+ */
+export interface FallbackFix {
+    patternId: string;
+    title: string;
+    edits: TextEdit[];                    // Non-overlapping
+    safe: boolean;                        // Same result in supporting browsers; applied by Fix All
+}
+
+export interface FallbackFixOptions {
+    indent?: string;                      // One indentation level, two spaces by default
+    eol?: string;                         // Line break of the document, `\n` by default
+}
+
+export interface CssBlock {
+    kind: 'root' | 'rule' | 'at';
+    prelude: string;                      // Selector or at-rule prelude, as written
+    start: number;                        // First prelude token
+    preludeEnd: number;
+    end: number;                          // After the closing `}`; end of text when unclosed
+    parent?: CssBlock;
+    children: CssBlock[];
+    declarations: CssDeclaration[];
+}
+
+export interface CssDeclaration {
+    property: string;                     // Lowercase, including any vendor prefix
+    value: string;
+    start: number;
+    end: number;                          // After the `;`, if any
+    block: CssBlock;
+}
+
+interface FixContext {
+    text: string;
+    match: FeatureMatch;
+    root: CssBlock;
+    indent: string;
+}
+
+type FixBuilder = (context: FixContext) => Omit<FallbackFix, 'patternId'> | undefined;
+
+// Properties that browsers within common targets only know with a -webkit- prefix, by pattern ID
+const WEBKIT_PREFIXED: Record<string, string[]> = {
+    'backdrop-filter': ['backdrop-filter'],
+    'user-select': ['user-select'],
+    'appearance': ['appearance'],
+    'text-size-adjust': ['text-size-adjust'],
+    'hyphens': ['hyphens'],
+    'box-decoration-break': ['box-decoration-break'],
+    'background-clip-text': ['background-clip'],
+    // mask-composite takes other keywords when prefixed
+    'masks': ['mask', 'mask-image', 'mask-size', 'mask-position', 'mask-repeat', 'mask-origin', 'mask-clip']
+};
+
+// Fixes by pattern ID
+const FIX_BUILDERS: Record<string, FixBuilder> = {
+    ...Object.fromEntries(Object.keys(WEBKIT_PREFIXED).map(patternId => [patternId, addWebkitPrefix])),
+    'position-sticky': addWebkitSticky,
+    'logical-properties': expandInset,
+    'has': wrapHasRule,
+    'gap': replaceFlexGap,
+    'css-nesting': unnestRule
+};
+
+// Fix All repeats until nothing is left; overlapping fixes need more than one pass
+const MAX_FIX_PASSES = 10;
+
+export function supportsFallbackFixes(languageId: string): boolean {
+    return CssFeatureDetector.supportsLanguage(languageId);
+}
+
+/**
+ * Whether any fix exists for a pattern; cheap check before parsing
+ */
+export function hasFallbackFix(patternId: string, languageId: string): boolean {
+    return patternId in FIX_BUILDERS && supportsFallbackFixes(languageId);
+}
+
+/**
+ * Fixes for one detected usage. Guarded usages already have a fallback
+ * path and get none.
+ */
+export function getFallbackFixes(text: string, languageId: string, match: FeatureMatch, options: FallbackFixOptions = {}): FallbackFix[] {
+    if (!hasFallbackFix(match.featureId, languageId) || match.guard) {
+        return [];
+    }
+
+    const context: FixContext = {
+        text,
+        match,
+        root: parseStylesheet(text, languageId !== 'css'),
+        indent: options.indent || '  '
+    };
+    const fix = FIX_BUILDERS[match.featureId](context);
+    if (!fix) {
+        return [];
+    }
+
+    // Builders join lines with `\n`
+    const eol = options.eol || '\n';
+    const edits = fix.edits.map(edit => ({ ...edit, newText: edit.newText.replace(/\r?\n/g, eol) }));
+    return [{ ...fix, patternId: match.featureId, edits }];
+}
+
+/**
+ * The lines a fix touches, as they read once it is applied, without their
+ * common indentation
+ */
+export function getFixPreview(text: string, fix: FallbackFix): string {
+    const start = text.lastIndexOf('\n', Math.min(...fix.edits.map(edit => edit.start)) - 1) + 1;
+    const lineEnd = text.indexOf('\n', Math.max(...fix.edits.map(edit => edit.end)));
+    const end = lineEnd < 0 ? text.length : lineEnd;
+
+    let preview = text.slice(start, end);
+    [...fix.edits].sort((a, b) => b.start - a.start).forEach(edit => {
+        preview = preview.slice(0, edit.start - start) + edit.newText + preview.slice(edit.end - start);
+    });
+
+    const lines = preview.replace(/\r\n/g, '\n').split('\n').map(line => line.trimEnd());
+    const indent = Math.min(...lines.filter(Boolean).map(line => /^[ \t]*/.exec(line)![0].length));
+    return lines.map(line => line.slice(indent)).join('\n').replace(/^\n+|\n+$/g, '');
+}
+
+/**
+ * Apply every safe fix for the given matches, then fix the result again
+ * until nothing is left: a fix overlapping another one (e.g. a prefix
+ * inside a rule that gets wrapped) lands in a later pass. `findMatches`
+ * returns the usages to fix in a version of the text. The edits refer to
+ * the original text.
+ */
+export function fixAll(
+    text: string,
+    languageId: string,
+    findMatches: (text: string) => FeatureMatch[],
+    options: FallbackFixOptions = {}
+): { edits: TextEdit[]; fixes: FallbackFix[] } {
+    const composer = new EditComposer(text);
+    const applied: FallbackFix[] = [];
+
+    for (let pass = 0; pass < MAX_FIX_PASSES; pass++) {
+        const current = composer.getText();
+        const fixes = findMatches(current)
+            .filter(match => hasFallbackFix(match.featureId, languageId))
+            .flatMap(match => getFallbackFixes(current, languageId, match, options))
+            .filter(fix => fix.safe);
+
+        // First come, first served; duplicates (property and value matches) count once
+        const accepted: FallbackFix[] = [];
+        const taken: TextEdit[] = [];
+        const seen = new Set<string>();
+        for (const fix of fixes) {
+            const key = JSON.stringify(fix.edits);
+            if (seen.has(key) || fix.edits.some(edit => taken.some(other => overlaps(edit, other)))) {
+                continue;
+            }
+            seen.add(key);
+            accepted.push(fix);
+            taken.push(...fix.edits);
+        }
+        if (accepted.length === 0) {
+            break;
+        }
+
+        // Back to front, so earlier offsets stay valid
+        taken.sort((a, b) => b.start - a.start).forEach(edit => composer.apply(edit));
+        applied.push(...accepted);
+    }
+
+    return { edits: composer.getEdits(), fixes: applied };
+}
+
+/**
+ * `.card:has(> img) {...}` → the rule inside `@supports selector(:has(*))`,
+ * followed by a fallback rule for browsers without `:has()`
+ */
+function wrapHasRule({ text, match, root, indent }: FixContext): Omit<FallbackFix, 'patternId'> | undefined {
+    const rule = findBlock(root, block => block.kind === 'rule' && match.start >= block.start && match.start < block.preludeEnd);
+    if (!rule || !isClosed(text, rule) || hasAncestor(rule, block => block.kind === 'at' && /^@supports\b[^{]*:has\b/i.test(block.prelude))) {
+        return undefined;
+    }
+
+    const base = indentOf(text, rule.start);
+    const fallbackSelector = splitSelectors(rule.prelude).map(stripHas).join(', ');
+    const newText = [
+        '@supports selector(:has(*)) {',
+        `${base}${indent}${reindent(text.slice(rule.start, rule.end), indent)}`,
+        `${base}}`,
+        '',
+        `${base}@supports not selector(:has(*)) {`,
+        `${base}${indent}${fallbackSelector} {`,
+        `${base}${indent}${indent}/* Styles for browsers without :has() */`,
+        `${base}${indent}}`,
+        `${base}}`
+    ].join('\n');
+
+    return {
+        title: 'Wrap in @supports selector(:has(*)) with a fallback block',
+        edits: [{ start: rule.start, end: rule.end, newText }],
+        safe: true
+    };
+}
+
+/**
+ * `user-select: none` → `-webkit-user-select: none; user-select: none`
+ */
+function addWebkitPrefix({ text, match, root }: FixContext): Omit<FallbackFix, 'patternId'> | undefined {
+    const declaration = findDeclaration(root, match.start);
+    const property = declaration?.property;
+    if (!property || !WEBKIT_PREFIXED[match.featureId].includes(property) ||
+        declaration.block.declarations.some(sibling => sibling.property === `-webkit-${property}`)) {
+        return undefined;
+    }
+
+    return {
+        title: `Add -webkit-${property}`,
+        edits: [insertBefore(text, declaration, `-webkit-${property}: ${declaration.value};`)],
+        safe: true
+    };
+}
+
+/**
+ * `position: sticky` → `position: -webkit-sticky; position: sticky`
+ */
+function addWebkitSticky({ text, match, root }: FixContext): Omit<FallbackFix, 'patternId'> | undefined {
+    const declaration = findDeclaration(root, match.start);
+    if (declaration?.property !== 'position' || declaration.value.toLowerCase() !== 'sticky' ||
+        declaration.block.declarations.some(sibling => sibling.property === 'position' && /-webkit-sticky/i.test(sibling.value))) {
+        return undefined;
+    }
+
+    return {
+        title: 'Add position: -webkit-sticky',
+        edits: [insertBefore(text, declaration, 'position: -webkit-sticky;')],
+        safe: true
+    };
+}
+
+/**
+ * `inset: 0 auto` → `top: 0; right: auto; bottom: 0; left: auto`
+ */
+function expandInset({ text, match, root }: FixContext): Omit<FallbackFix, 'patternId'> | undefined {
+    const declaration = findDeclaration(root, match.start);
+    if (declaration?.property !== 'inset') {
+        return undefined;
+    }
+
+    // A variable may hold several values
+    const important = /\s*!important\s*$/i.exec(declaration.value)?.[0] || '';
+    const values = splitTopLevel(declaration.value.slice(0, declaration.value.length - important.length), /\s/);
+    if (values.length < 1 || values.length > 4 || values.some(value => /\b(?:var|env)\(/i.test(value))) {
+        return undefined;
+    }
+
+    const [top, right = top, bottom = top, left = right] = values;
+    const separator = isLineStart(text, declaration.start) ? `\n${indentOf(text, declaration.start)}` : ' ';
+    const longhands = [['top', top], ['right', right], ['bottom', bottom], ['left', left]]
+        .map(([property, value]) => `${property}: ${value}${important ? ' !important' : ''};`)
+        .join(separator);
+
+    return {
+        title: 'Expand inset into top, right, bottom and left',
+        edits: [{ start: declaration.start, end: declaration.end, newText: longhands }],
+        safe: true
+    };
+}
+
+/**
+ * `gap` in a flex container → margins between the items, for browsers
+ * that only support `gap` in grids. Wrapping containers get half the gap
+ * around every item and a negative margin on the container.
+ */
+function replaceFlexGap({ text, match, root, indent }: FixContext): Omit<FallbackFix, 'patternId'> | undefined {
+    const declaration = findDeclaration(root, match.start);
+    const rule = declaration?.block;
+    if (declaration?.property !== 'gap' || rule?.kind !== 'rule' || !isClosed(text, rule)) {
+        return undefined;
+    }
+
+    const valueOf = (...properties: string[]) =>
+        [...rule.declarations].reverse().find(candidate => properties.includes(candidate.property))?.value.toLowerCase() || '';
+    if (!/\b(?:inline-)?flex\b/.test(valueOf('display'))) {
+        return undefined;
+    }
+
+    const [rowGap, columnGap = rowGap] = splitTopLevel(declaration.value.replace(/\s*!important\s*$/i, ''), /\s/);
+    if (!rowGap) {
+        return undefined;
+    }
+
+    const flow = `${valueOf('flex-direction')} ${valueOf('flex-flow')}`;
+    const wraps = /\bwrap(?:-reverse)?\b/.test(`${valueOf('flex-wrap')} ${valueOf('flex-flow')}`);
+    const base = indentOf(text, rule.start);
+    const childRule = (combinator: string, declarationText: string) => [
+        '',
+        '',
+        `${base}${splitSelectors(rule.prelude).map(selector => `${selector} ${combinator}`).join(', ')} {`,
+        `${base}${indent}${declarationText}`,
+        `${base}}`
+    ].join('\n');
+
+    if (wraps) {
+        return {
+            title: 'Replace flex gap with margin fallbacks',
+            edits: [
+                { start: declaration.start, end: declaration.end, newText: `margin: calc(${rowGap} / -2) calc(${columnGap} / -2);` },
+                { start: rule.end, end: rule.end, newText: childRule('> *', `margin: calc(${rowGap} / 2) calc(${columnGap} / 2);`) }
+            ],
+            safe: false
+        };
+    }
+
+    const [side, size] = /\bcolumn-reverse\b/.test(flow) ? ['bottom', rowGap]
+        : /\bcolumn\b/.test(flow) ? ['top', rowGap]
+        : /\brow-reverse\b/.test(flow) ? ['right', columnGap]
+        : ['left', columnGap];
+    return {
+        title: 'Replace flex gap with margin fallbacks',
+        edits: [
+            removal(text, declaration.start, declaration.end),
+            { start: rule.end, end: rule.end, newText: childRule('> * + *', `margin-${side}: ${size};`) }
+        ],
+        safe: false
+    };
+}
+
+/**
+ * Move a nested style rule after its outermost parent rule, with the
+ * selector written out in full
+ */
+function unnestRule({ text, match, root }: FixContext): Omit<FallbackFix, 'patternId'> | undefined {
+    const rule = findBlock(root, block => block.kind === 'rule' && match.start >= block.start && match.start < block.preludeEnd);
+    if (!rule || rule.parent?.kind !== 'rule') {
+        return undefined;
+    }
+
+    // Only rules nested directly in rules: a conditional group in between would have to move too
+    let outermost = rule.parent;
+    let selectors = resolveSelectors(rule.prelude, rule.parent.prelude);
+    while (outermost.parent?.kind === 'rule') {
+        outermost = outermost.parent;
+        selectors = selectors.flatMap(selector => resolveSelectors(selector, outermost.prelude));
+    }
+    if (!isClosed(text, rule) || !isClosed(text, outermost)) {
+        return undefined;
+    }
+
+    const ruleIndent = indentOf(text, rule.start);
+    const outerIndent = indentOf(text, outermost.start);
+    const body = text.slice(rule.preludeEnd, rule.end).trimStart()
+        .split('\n')
+        .map((line, i) => i > 0 && line.startsWith(ruleIndent) ? outerIndent + line.slice(ruleIndent.length) : line)
+        .join('\n');
+
+    return {
+        title: 'Move nested rule out of its parent',
+        edits: [
+            removal(text, rule.start, rule.end),
+            { start: outermost.end, end: outermost.end, newText: `\n\n${outerIndent}${selectors.join(', ')} ${body}` }
+        ],
+        // Expanded selectors can differ in specificity from the nested form
+        safe: false
+    };
+}
+
+/**
+ * Blocks and declarations of a stylesheet, enough to rewrite rules
+ */
+export function parseStylesheet(text: string, isPreprocessor: boolean): CssBlock {
+    const root: CssBlock = { kind: 'root', prelude: '', start: 0, preludeEnd: 0, end: text.length, children: [], declarations: [] };
+    let current = root;
+    let prelude: Token[] = [];
+    let depth = 0;
+
+    const endStatement = (end: number) => {
+        const [name, colon, ...value] = prelude;
+        if (name?.type === 'ident' && isDelim(colon, ':')) {
+            current.declarations.push({
+                property: name.value.toLowerCase(),
+                value: value.length > 0 ? text.slice(value[0].start, value[value.length - 1].end) : '',
+                start: name.start,
+                end,
+                block: current
+            });
+        }
+        prelude = [];
+    };
+
+    for (const token of tokenize(text, isPreprocessor)) {
+        if (opens(token)) {
+            depth++;
+        } else if (isDelim(token, ')') || isDelim(token, ']')) {
+            depth = Math.max(0, depth - 1);
+        }
+
+        if (depth === 0 && isDelim(token, '{')) {
+            const first = prelude[0];
+            const preludeEnd = prelude.length > 0 ? prelude[prelude.length - 1].end : token.start;
+            const block: CssBlock = {
+                kind: first?.type === 'at-keyword' ? 'at' : 'rule',
+                prelude: first ? text.slice(first.start, preludeEnd) : '',
+                start: first ? first.start : token.start,
+                preludeEnd,
+                end: text.length,
+                parent: current,
+                children: [],
+                declarations: []
+            };
+            current.children.push(block);
+            current = block;
+            prelude = [];
+        } else if (depth === 0 && isDelim(token, ';')) {
+            endStatement(token.end);
+        } else if (isDelim(token, '}')) {
+            endStatement(prelude.length > 0 ? prelude[prelude.length - 1].end : token.start);
+            depth = 0;
+            if (current.parent) {
+                current.end = token.end;
+                current = current.parent;
+            }
+        } else {
+            prelude.push(token);
+        }
+    }
+
+    return root;
+}
+
+/**
+ * The innermost block satisfying `predicate`
+ */
+function findBlock(block: CssBlock, predicate: (block: CssBlock) => boolean): CssBlock | undefined {
+    for (const child of block.children) {
+        const found = findBlock(child, predicate);
+        if (found) {
+            return found;
+        }
+    }
+    return predicate(block) ? block : undefined;
+}
+
+function findDeclaration(root: CssBlock, offset: number): CssDeclaration | undefined {
+    const block = findBlock(root, candidate => candidate.declarations.some(d => offset >= d.start && offset < d.end));
+    return block?.declarations.find(d => offset >= d.start && offset < d.end);
+}
+
+function hasAncestor(block: CssBlock, predicate: (block: CssBlock) => boolean): boolean {
+    for (let parent = block.parent; parent; parent = parent.parent) {
+        if (predicate(parent)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * The selectors of a nested rule, written relative to nothing
+ */
+function resolveSelectors(nested: string, parent: string): string[] {
+    const parents = splitSelectors(parent);
+    return splitSelectors(nested).flatMap(selector => parents.map(parentSelector =>
+        selector.includes('&') ? selector.replace(/&/g, parentSelector) : `${parentSelector} ${selector}`
+    ));
+}
+
+function splitSelectors(selectorList: string): string[] {
+    return splitTopLevel(selectorList, /,/).map(selector => selector.replace(/\s+/g, ' '));
+}
+
+/**
+ * `.card:has(> img).active` → `.card.active`; `* ` when nothing is left
+ */
+function stripHas(selector: string): string {
+    let result = '';
+    let i = 0;
+    while (i < selector.length) {
+        if (selector.slice(i, i + 5).toLowerCase() !== ':has(') {
+            result += selector[i++];
+            continue;
+        }
+        let depth = 0;
+        for (i += 4; i < selector.length; i++) {
+            depth += selector[i] === '(' ? 1 : selector[i] === ')' ? -1 : 0;
+            if (depth === 0) {
+                i++;
+                break;
+            }
+        }
+    }
+
+    result = result.trim();
+    return !result || /[\s>+~]$/.test(result) ? `${result} *`.trim() : result;
+}
+
+/**
+ * Split at separators outside brackets and strings, dropping empty parts
+ */
+function splitTopLevel(value: string, separator: RegExp): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let quote: string | undefined;
+    let part = '';
+
+    for (const char of value) {
+        if (quote) {
+            quote = char === quote ? undefined : quote;
+        } else if (char === '"' || char === '\'') {
+            quote = char;
+        } else if (char === '(' || char === '[') {
+            depth++;
+        } else if (char === ')' || char === ']') {
+            depth--;
+        } else if (depth === 0 && separator.test(char)) {
+            parts.push(part);
+            part = '';
+            continue;
+        }
+        part += char;
+    }
+    parts.push(part);
+
+    return parts.map(p => p.trim()).filter(Boolean);
+}
+
+/**
+ * Remove a range, with its line when nothing else is on it
+ */
+function removal(text: string, start: number, end: number): TextEdit {
+    const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+    const lineEnd = text.indexOf('\n', end);
+    const after = lineEnd === -1 ? text.length : lineEnd;
+    if (text.slice(lineStart, start).trim() === '' && text.slice(end, after).trim() === '') {
+        return { start: lineStart, end: lineEnd === -1 ? text.length : lineEnd + 1, newText: '' };
+    }
+    return { start, end, newText: '' };
+}
+
+/**
+ * Insert a declaration before another one, on its own line if that one is
+ */
+function insertBefore(text: string, declaration: CssDeclaration, declarationText: string): TextEdit {
+    const separator = isLineStart(text, declaration.start) ? `\n${indentOf(text, declaration.start)}` : ' ';
+    return { start: declaration.start, end: declaration.start, newText: `${declarationText}${separator}` };
+}
+
+function overlaps(a: TextEdit, b: TextEdit): boolean {
+    // Two insertions at the same offset would have an arbitrary order
+    return (a.start < b.end && b.start < a.end) || a.start === b.start || a.end === b.end;
+}
+
+function isClosed(text: string, block: CssBlock): boolean {
+    return text[block.end - 1] === '}';
+}
+
+function isLineStart(text: string, offset: number): boolean {
+    return text.slice(text.lastIndexOf('\n', offset - 1) + 1, offset).trim() === '';
+}
+
+/**
+ * Leading whitespace of the line containing `offset`
+ */
+function indentOf(text: string, offset: number): string {
+    const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+    return /^[ \t]*/.exec(text.slice(lineStart, offset))![0];
+}
+
+/**
+ * Indent all lines but the first one level deeper
+ */
+function reindent(block: string, indent: string): string {
+    return block.replace(/\n(?=[^\r\n])/g, `\n${indent}`);
+}
+
+/**
+ * Edits against an original text that produce the current text; later
+ * edits refer to the current text and merge with the ones they touch
+ */
+class EditComposer {
+    private edits: TextEdit[] = [];       // Sorted, non-overlapping, original offsets
+
+    constructor(private text: string) {}
+
+    public getText(): string {
+        return this.text;
+    }
+
+    public getEdits(): TextEdit[] {
+        return this.edits;
+    }
+
+    public apply(edit: TextEdit): void {
+        // Where each composed edit sits in the current text
+        let shift = 0;
+        const placed = this.edits.map(composed => {
+            const start = composed.start + shift;
+            shift += composed.newText.length - (composed.end - composed.start);
+            return { composed, start, end: start + composed.newText.length };
+        });
+
+        const touched = placed.filter(({ start, end }) => start <= edit.end && end >= edit.start);
+        const start = Math.min(edit.start, ...touched.map(t => t.start));
+        const end = Math.max(edit.end, ...touched.map(t => t.end));
+        const toOriginal = (offset: number) => {
+            let delta = 0;
+            for (const { composed, start: placedStart, end: placedEnd } of placed) {
+                if (offset === placedStart) {
+                    return composed.start;
+                }
+                if (offset === placedEnd) {
+                    return composed.end;
+                }
+                if (placedEnd < offset) {
+                    delta = placedEnd - composed.end;
+                }
+            }
+            return offset - delta;
+        };
+
+        this.text = this.text.slice(0, edit.start) + edit.newText + this.text.slice(edit.end);
+        const merged: TextEdit = {
+            start: toOriginal(start),
+            end: toOriginal(end),
+            newText: this.text.slice(start, end + edit.newText.length - (edit.end - edit.start))
+        };
+
+        this.edits = [...this.edits.filter(composed => !touched.some(t => t.composed === composed)), merged]
+            .sort((a, b) => a.start - b.start);
+    }
+}
@@ -0,0 +1,229 @@
+import * as ts from 'typescript';
+import { CssFeatureDetector, isDelim, tokenize } from './detectors/CssFeatureDetector';
+import { JsFeatureDetector, parseScript } from './detectors/JsFeatureDetector';
+import { extractEmbeddedRegions, HtmlFeatureDetector } from './detectors/HtmlFeatureDetector';
+
+/**
+ * Progressive-enhancement guards: code that only runs when a feature exists.
+ *
+ * CSS:  `@supports (container-type: inline-size) { ... }`, `@supports selector(:has(a)) { ... }`
+ * JS:   `if ('IntersectionObserver' in window) { ... }`, `if (typeof fetch !== 'undefined') ...`,
+ *       `if (window.ResizeObserver) ...`, `if (CSS.supports('selector(:has(a))')) ...`
+ *
+ * Stylesheets are tokenized and scripts parsed, so comments and strings
+ * never guard anything. Negated guards (`@supports not (...)`,
+ * `if (!('x' in window))`) protect the fallback, not the feature, and are
+ * ignored.
+ */
+
+export interface FeatureGuard {
+    start: number;                        // Offset of `@supports` / `if`
+    end: number;                          // Offset after the guarded block
+    condition: string;                    // Guard condition as written, for messages
+    featureIds: Set<string>;              // Pattern IDs detected in a CSS condition
+    names: string[];                      // Global names tested by a JS condition
+}
+
+/**
+ * Detects pattern IDs in a CSS condition, e.g. `(container-type: inline-size)`
+ */
+export type ConditionDetector = (condition: string) => string[];
+
+// Objects whose properties are globals or browser APIs
+const GLOBAL_OBJECTS = new Set(['window', 'self', 'globalThis', 'navigator']);
+
+/**
+ * Find every feature guard in text. `detect` maps CSS conditions to pattern IDs.
+ * Markup has the guards of its `<style>` and `<script>` blocks; other
+ * languages have none.
+ */
+export function findFeatureGuards(text: string, languageId: string | undefined, detect: ConditionDetector): FeatureGuard[] {
+    if (!languageId) {
+        return [];
+    }
+
+    if (CssFeatureDetector.supportsLanguage(languageId)) {
+        return text.includes('@supports') ? findStylesheetGuards(text, languageId, detect) : [];
+    }
+
+    if (JsFeatureDetector.supportsLanguage(languageId)) {
+        return /\bif\s*\(/.test(text) ? findScriptGuards(text, languageId, detect) : [];
+    }
+
+    if (HtmlFeatureDetector.supportsLanguage(languageId)) {
+        // `style=""` attributes hold declarations only
+        return extractEmbeddedRegions(text)
+            .filter(region => !region.declarations)
+            .flatMap(region => findFeatureGuards(text.slice(region.start, region.end), region.languageId, detect)
+                .map(guard => ({ ...guard, start: guard.start + region.start, end: guard.end + region.start })));
+    }
+
+    return [];
+}
+
+/**
+ * The innermost guard protecting a match, if any. `featureIds` lists every
+ * ID the match is known by; `matchText` is its source text, whose
+ * identifiers must include a tested name exactly.
+ */
+export function findGuard(guards: FeatureGuard[], start: number, featureIds: string[], matchText: string): FeatureGuard | undefined {
+    let innermost: FeatureGuard | undefined;
+    let identifiers: string[] | undefined;
+
+    for (const guard of guards) {
+        if (start < guard.start || start >= guard.end) {
+            continue;
+        }
+        identifiers ??= matchText.match(/[\w$]+/g) || [];
+        const covers = featureIds.some(id => guard.featureIds.has(id)) ||
+            guard.names.some(name => identifiers!.includes(name));
+        if (covers && (!innermost || guard.start > innermost.start)) {
+            innermost = guard;
+        }
+    }
+
+    return innermost;
+}
+
+// `@supports <condition> { ... }`, up to the matching `}`
+function findStylesheetGuards(text: string, languageId: string, detect: ConditionDetector): FeatureGuard[] {
+    const tokens = tokenize(text, languageId !== 'css');
+    const guards: FeatureGuard[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (token.type !== 'at-keyword' || token.value.toLowerCase() !== '@supports') {
+            continue;
+        }
+
+        let open = i + 1;
+        while (open < tokens.length && !isDelim(tokens[open], '{') && !isDelim(tokens[open], ';')) {
+            open++;
+        }
+        if (!isDelim(tokens[open], '{') || open === i + 1) {
+            continue;
+        }
+
+        const condition = text.slice(tokens[i + 1].start, tokens[open - 1].end);
+        if (/^not\b/i.test(condition)) {
+            continue;
+        }
+
+        let end = text.length;
+        for (let j = open, depth = 0; j < tokens.length; j++) {
+            if (isDelim(tokens[j], '{')) {
+                depth++;
+            } else if (isDelim(tokens[j], '}') && --depth === 0) {
+                end = tokens[j].end;
+                break;
+            }
+        }
+
+        guards.push({
+            start: token.start,
+            end,
+            condition: `@supports ${condition}`,
+            featureIds: new Set(detect(condition)),
+            names: []
+        });
+    }
+
+    return guards;
+}
+
+// `if (<checks>) statement`, covering the statement but not the `else` branch
+function findScriptGuards(text: string, languageId: string, detect: ConditionDetector): FeatureGuard[] {
+    const sourceFile = parseScript(text, languageId);
+    const guards: FeatureGuard[] = [];
+
+    const visit = (node: ts.Node): void => {
+        if (ts.isIfStatement(node)) {
+            const names = new Set<string>();
+            const featureIds = new Set<string>();
+            collectChecks(node.expression, names, featureIds, detect);
+            if (names.size > 0 || featureIds.size > 0) {
+                guards.push({
+                    start: node.getStart(sourceFile),
+                    end: node.thenStatement.getEnd(),
+                    condition: `if (${node.expression.getText(sourceFile)})`,
+                    featureIds,
+                    names: Array.from(names)
+                });
+            }
+        }
+        ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return guards;
+}
+
+/**
+ * Names and CSS features a condition tests for, through `&&` and `||`.
+ * Anything under `!` tests for absence and is skipped.
+ */
+function collectChecks(node: ts.Expression, names: Set<string>, featureIds: Set<string>, detect: ConditionDetector): void {
+    if (ts.isParenthesizedExpression(node)) {
+        collectChecks(node.expression, names, featureIds, detect);
+        return;
+    }
+
+    // window.ResizeObserver as a truthy check
+    const global = getGlobalName(node);
+    if (global) {
+        names.add(global);
+        return;
+    }
+
+    if (ts.isBinaryExpression(node)) {
+        const operator = node.operatorToken.kind;
+        if (operator === ts.SyntaxKind.AmpersandAmpersandToken || operator === ts.SyntaxKind.BarBarToken) {
+            collectChecks(node.left, names, featureIds, detect);
+            collectChecks(node.right, names, featureIds, detect);
+        } else if (operator === ts.SyntaxKind.InKeyword && ts.isStringLiteral(node.left)) {
+            // 'IntersectionObserver' in window, 'popover' in HTMLElement.prototype
+            names.add(node.left.text);
+        } else {
+            const name = getTypeofCheck(node);
+            if (name) {
+                names.add(name);
+            }
+        }
+        return;
+    }
+
+    // CSS.supports('display', 'grid'), CSS.supports('selector(:has(a))')
+    if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression) &&
+        ts.isIdentifier(node.expression.expression) && node.expression.expression.text === 'CSS' &&
+        node.expression.name.text === 'supports') {
+        const args = node.arguments.filter(ts.isStringLiteralLike).map(arg => arg.text);
+        const condition = args.length === 2 ? `(${args[0]}: ${args[1]})` : args.join(' ');
+        detect(condition).forEach(id => featureIds.add(id));
+    }
+}
+
+// typeof Name !== 'undefined', typeof window.Name === 'function'
+function getTypeofCheck(node: ts.BinaryExpression): string | undefined {
+    const [check, literal] = ts.isTypeOfExpression(node.left) ? [node.left, node.right] : [node.right, node.left];
+    if (!ts.isTypeOfExpression(check) || !ts.isStringLiteral(literal)) {
+        return undefined;
+    }
+
+    const operator = node.operatorToken.kind;
+    const isNotEqual = operator === ts.SyntaxKind.ExclamationEqualsEqualsToken || operator === ts.SyntaxKind.ExclamationEqualsToken;
+    const isEqual = operator === ts.SyntaxKind.EqualsEqualsEqualsToken || operator === ts.SyntaxKind.EqualsEqualsToken;
+    const exists = (isNotEqual && literal.text === 'undefined') ||
+        (isEqual && (literal.text === 'function' || literal.text === 'object'));
+    if (!exists) {
+        return undefined;
+    }
+
+    return ts.isIdentifier(check.expression) ? check.expression.text : getGlobalName(check.expression);
+}
+
+// window.Name, navigator.Name
+function getGlobalName(node: ts.Expression): string | undefined {
+    return ts.isPropertyAccessExpression(node) && ts.isIdentifier(node.expression) && GLOBAL_OBJECTS.has(node.expression.text)
+        ? node.name.text
+        : undefined;
+}
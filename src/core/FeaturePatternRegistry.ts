@@ -1,3 +1,9 @@
+import { findFeatureGuards, findGuard } from './FeatureGuards';
+import { getCompatKeyIndex, getGeneratedPatternDefinitions, mergeGeneratedDefinitions } from './CompatPatternGenerator';
+import { CssFeatureDetector, CssFeatureMatcher } from './detectors/CssFeatureDetector';
+import { JsFeatureDetector, JsFeatureMatcher } from './detectors/JsFeatureDetector';
+import { extractEmbeddedRegions, HtmlFeatureDetector, HtmlFeatureMatcher } from './detectors/HtmlFeatureDetector';
+
 /**
  * Centralized registry for all feature detection patterns
  * Single source of truth for CSS, JavaScript, and HTML feature detection
@@ -10,6 +16,9 @@ export interface FeaturePatternDefinition {
     
     // Detection patterns
     patterns: RegExp[];                   // Regex patterns to detect this feature
+    css?: CssFeatureMatcher;              // Precise matchers for CSS, SCSS and Less (preferred over patterns)
+    js?: JsFeatureMatcher;                // Syntax-tree matchers for JS, TS, JSX and TSX (preferred over patterns)
+    html?: HtmlFeatureMatcher;            // Element and attribute matchers for HTML, Vue and Svelte markup
     
     // Metadata
     category: 'css' | 'js' | 'html' | 'api';
@@ -27,13 +36,30 @@ export interface FeaturePatternDefinition {
     commonUseCases?: string[];
 }
 
+/**
+ * A single detected occurrence of a feature pattern in a text
+ */
+export interface FeatureMatch {
+    featureId: string;                    // Primary pattern ID
+    start: number;                        // Offset of the first matched character
+    end: number;                          // Offset after the last matched character
+    text: string;                         // Matched source text
+    guard?: string;                       // `@supports` / feature-detection condition protecting the match
+    matcher?: string;                     // Structured matcher that found it, e.g. `css-value:display:grid`
+    compatKey?: string;                   // Exact BCD key, e.g. `css.properties.display.grid`
+}
+
 export class FeaturePatternRegistry {
     private patterns: Map<string, FeaturePatternDefinition> = new Map();
     private aliasMap: Map<string, string> = new Map(); // alias -> primary ID
     private categoryIndex: Map<string, Set<string>> = new Map();
+    private cssDetector!: CssFeatureDetector;
+    private jsDetector!: JsFeatureDetector;
+    private htmlDetector!: HtmlFeatureDetector;
     
     constructor() {
         this.initializePatterns();
+        this.registerGeneratedPatterns();
         this.buildIndices();
     }
     
@@ -52,6 +78,14 @@ export class FeaturePatternRegistry {
                     /grid-auto-(?:flow|rows|columns)/gi,
                     /grid-area/gi
                 ],
+                css: {
+                    values: [{ properties: ['display'], keywords: ['grid', 'inline-grid'] }],
+                    properties: [
+                        'grid', 'grid-template', 'grid-template-columns', 'grid-template-rows', 'grid-template-areas',
+                        'grid-column', 'grid-row', 'grid-column-start', 'grid-column-end', 'grid-row-start', 'grid-row-end',
+                        'grid-auto-flow', 'grid-auto-rows', 'grid-auto-columns', 'grid-area'
+                    ]
+                },
                 category: 'css',
                 subcategory: 'layout',
                 riskLevel: 'safe',
@@ -68,6 +102,9 @@ export class FeaturePatternRegistry {
                     /grid-template-columns:\s*subgrid/gi,
                     /grid-template-rows:\s*subgrid/gi
                 ],
+                css: {
+                    values: [{ properties: ['grid-template-columns', 'grid-template-rows', 'grid-template'], keywords: ['subgrid'] }]
+                },
                 category: 'css',
                 subcategory: 'layout',
                 riskLevel: 'moderate',
@@ -86,6 +123,13 @@ export class FeaturePatternRegistry {
                     /(?:justify|align)-(?:content|items|self)/gi,
                     /order:/gi
                 ],
+                css: {
+                    values: [{ properties: ['display'], keywords: ['flex', 'inline-flex'] }],
+                    properties: [
+                        'flex', 'flex-direction', 'flex-wrap', 'flex-flow', 'flex-grow', 'flex-shrink', 'flex-basis', 'order',
+                        'justify-content', 'align-content', 'align-items', 'align-self'
+                    ]
+                },
                 category: 'css',
                 subcategory: 'layout',
                 riskLevel: 'safe',
@@ -104,6 +148,9 @@ export class FeaturePatternRegistry {
                     /(?:column|row)-gap:/gi,
                     /grid-gap:/gi // Old syntax
                 ],
+                css: {
+                    properties: ['gap', 'column-gap', 'row-gap', 'grid-gap', 'grid-column-gap', 'grid-row-gap']
+                },
                 category: 'css',
                 subcategory: 'layout',
                 riskLevel: 'safe',
@@ -119,9 +166,13 @@ export class FeaturePatternRegistry {
                 id: 'container-queries',
                 aliases: ['css-container-queries', 'container'],
                 patterns: [
-                    /@container(?:\s+[\w-]+)?(?:\s*KATEX_INLINE_OPEN[^)]+KATEX_INLINE_CLOSE)?/gi,
+                    /@container(?:\s+[\w-]+)?(?:\s*\([^)]+\))?/gi,
                     /container-(?:type|name):/gi
                 ],
+                css: {
+                    atRules: ['container'],
+                    properties: ['container', 'container-type', 'container-name']
+                },
                 category: 'css',
                 subcategory: 'responsive',
                 riskLevel: 'experimental',
@@ -137,6 +188,9 @@ export class FeaturePatternRegistry {
                 patterns: [
                     /aspect-ratio:/gi
                 ],
+                css: {
+                    properties: ['aspect-ratio']
+                },
                 category: 'css',
                 subcategory: 'sizing',
                 riskLevel: 'safe',
@@ -153,8 +207,11 @@ export class FeaturePatternRegistry {
                 id: 'has',
                 aliases: ['css-has', ':has'],
                 patterns: [
-                    /:has\s*KATEX_INLINE_OPEN[^)]+KATEX_INLINE_CLOSE/gi
+                    /:has\s*\([^)]+\)/gi
                 ],
+                css: {
+                    pseudoClasses: ['has']
+                },
                 category: 'css',
                 subcategory: 'selectors',
                 riskLevel: 'moderate',
@@ -171,6 +228,9 @@ export class FeaturePatternRegistry {
                     /&\s*[\.:]/gi,
                     /&\s+[\w]/gi
                 ],
+                css: {
+                    nesting: true
+                },
                 category: 'css',
                 subcategory: 'syntax',
                 riskLevel: 'moderate',
@@ -183,9 +243,12 @@ export class FeaturePatternRegistry {
                 id: 'css-is',
                 aliases: [':is', 'css-matches'],
                 patterns: [
-                    /:is\s*KATEX_INLINE_OPEN[^)]+KATEX_INLINE_CLOSE/gi,
-                    /:matches\s*KATEX_INLINE_OPEN[^)]+KATEX_INLINE_CLOSE/gi // Old syntax
+                    /:is\s*\([^)]+\)/gi,
+                    /:matches\s*\([^)]+\)/gi // Old syntax
                 ],
+                css: {
+                    pseudoClasses: ['is', 'matches', 'any']
+                },
                 category: 'css',
                 subcategory: 'selectors',
                 riskLevel: 'safe',
@@ -198,8 +261,11 @@ export class FeaturePatternRegistry {
                 id: 'css-where',
                 aliases: [':where'],
                 patterns: [
-                    /:where\s*KATEX_INLINE_OPEN[^)]+KATEX_INLINE_CLOSE/gi
+                    /:where\s*\([^)]+\)/gi
                 ],
+                css: {
+                    pseudoClasses: ['where']
+                },
                 category: 'css',
                 subcategory: 'selectors',
                 riskLevel: 'safe',
@@ -216,8 +282,12 @@ export class FeaturePatternRegistry {
                 aliases: ['css-variables', 'css-custom-properties'],
                 patterns: [
                     /--[\w-]+\s*:/gi,
-                    /var\s*KATEX_INLINE_OPEN\s*--[\w-]+/gi
+                    /var\s*\(\s*--[\w-]+/gi
                 ],
+                css: {
+                    customProperties: true,
+                    functions: ['var']
+                },
                 category: 'css',
                 subcategory: 'values',
                 riskLevel: 'safe',
@@ -230,8 +300,11 @@ export class FeaturePatternRegistry {
                 id: 'calc',
                 aliases: ['css-calc'],
                 patterns: [
-                    /calc\s*KATEX_INLINE_OPEN[^)]+KATEX_INLINE_CLOSE/gi
+                    /calc\s*\([^)]+\)/gi
                 ],
+                css: {
+                    functions: ['calc']
+                },
                 category: 'css',
                 subcategory: 'values',
                 riskLevel: 'safe',
@@ -244,8 +317,11 @@ export class FeaturePatternRegistry {
                 id: 'clamp',
                 aliases: ['css-clamp'],
                 patterns: [
-                    /clamp\s*KATEX_INLINE_OPEN[^)]+KATEX_INLINE_CLOSE/gi
+                    /clamp\s*\([^)]+\)/gi
                 ],
+                css: {
+                    functions: ['clamp']
+                },
                 category: 'css',
                 subcategory: 'values',
                 riskLevel: 'safe',
@@ -258,8 +334,11 @@ export class FeaturePatternRegistry {
                 id: 'min',
                 aliases: ['css-min'],
                 patterns: [
-                    /min\s*KATEX_INLINE_OPEN[^)]+KATEX_INLINE_CLOSE/gi
+                    /min\s*\([^)]+\)/gi
                 ],
+                css: {
+                    functions: ['min']
+                },
                 category: 'css',
                 subcategory: 'values',
                 riskLevel: 'safe',
@@ -272,8 +351,11 @@ export class FeaturePatternRegistry {
                 id: 'max',
                 aliases: ['css-max'],
                 patterns: [
-                    /max\s*KATEX_INLINE_OPEN[^)]+KATEX_INLINE_CLOSE/gi
+                    /max\s*\([^)]+\)/gi
                 ],
+                css: {
+                    functions: ['max']
+                },
                 category: 'css',
                 subcategory: 'values',
                 riskLevel: 'safe',
@@ -291,6 +373,9 @@ export class FeaturePatternRegistry {
                 patterns: [
                     /backdrop-filter:/gi
                 ],
+                css: {
+                    properties: ['backdrop-filter']
+                },
                 category: 'css',
                 subcategory: 'effects',
                 riskLevel: 'moderate',
@@ -305,8 +390,12 @@ export class FeaturePatternRegistry {
                 aliases: ['css-filter', 'css-filters'],
                 patterns: [
                     /filter:\s*(?!none)[^;]+/gi,
-                    /(?:blur|brightness|contrast|grayscale|hue-rotate|invert|saturate|sepia)\s*KATEX_INLINE_OPEN/gi
+                    /(?:blur|brightness|contrast|grayscale|hue-rotate|invert|saturate|sepia)\s*\(/gi
                 ],
+                css: {
+                    properties: ['filter'],
+                    functions: ['blur', 'brightness', 'contrast', 'drop-shadow', 'grayscale', 'hue-rotate', 'invert', 'opacity', 'saturate', 'sepia']
+                },
                 category: 'css',
                 subcategory: 'effects',
                 riskLevel: 'safe',
@@ -325,6 +414,13 @@ export class FeaturePatternRegistry {
                     /@keyframes/gi,
                     /animation(?:-name|-duration|-timing-function|-delay|-iteration-count|-direction|-fill-mode|-play-state)?:/gi
                 ],
+                css: {
+                    atRules: ['keyframes'],
+                    properties: [
+                        'animation', 'animation-name', 'animation-duration', 'animation-timing-function', 'animation-delay',
+                        'animation-iteration-count', 'animation-direction', 'animation-fill-mode', 'animation-play-state'
+                    ]
+                },
                 category: 'css',
                 subcategory: 'animation',
                 riskLevel: 'safe',
@@ -339,6 +435,9 @@ export class FeaturePatternRegistry {
                 patterns: [
                     /transition(?:-property|-duration|-timing-function|-delay)?:/gi
                 ],
+                css: {
+                    properties: ['transition', 'transition-property', 'transition-duration', 'transition-timing-function', 'transition-delay']
+                },
                 category: 'css',
                 subcategory: 'animation',
                 riskLevel: 'safe',
@@ -352,8 +451,17 @@ export class FeaturePatternRegistry {
                 aliases: ['css-transforms', 'transform'],
                 patterns: [
                     /transform:/gi,
-                    /(?:translate|rotate|scale|skew|matrix)(?:3d|X|Y|Z)?\s*KATEX_INLINE_OPEN/gi
+                    /(?:translate|rotate|scale|skew|matrix)(?:3d|X|Y|Z)?\s*\(/gi
                 ],
+                css: {
+                    properties: ['transform'],
+                    functions: [
+                        'translate', 'translatex', 'translatey', 'translatez', 'translate3d',
+                        'rotate', 'rotatex', 'rotatey', 'rotatez', 'rotate3d',
+                        'scale', 'scalex', 'scaley', 'scalez', 'scale3d',
+                        'skew', 'skewx', 'skewy', 'matrix', 'matrix3d'
+                    ]
+                },
                 category: 'css',
                 subcategory: 'animation',
                 riskLevel: 'safe',
@@ -371,6 +479,9 @@ export class FeaturePatternRegistry {
                 patterns: [
                     /scroll-snap-(?:type|align|stop):/gi
                 ],
+                css: {
+                    properties: ['scroll-snap-type', 'scroll-snap-align', 'scroll-snap-stop']
+                },
                 category: 'css',
                 subcategory: 'scroll',
                 riskLevel: 'safe',
@@ -386,6 +497,9 @@ export class FeaturePatternRegistry {
                 patterns: [
                     /position:\s*sticky/gi
                 ],
+                css: {
+                    values: [{ properties: ['position'], keywords: ['sticky'] }]
+                },
                 category: 'css',
                 subcategory: 'positioning',
                 riskLevel: 'safe',
@@ -400,6 +514,9 @@ export class FeaturePatternRegistry {
                 patterns: [
                     /overscroll-behavior(?:-x|-y)?:/gi
                 ],
+                css: {
+                    properties: ['overscroll-behavior', 'overscroll-behavior-x', 'overscroll-behavior-y', 'overscroll-behavior-inline', 'overscroll-behavior-block']
+                },
                 category: 'css',
                 subcategory: 'scroll',
                 riskLevel: 'safe',
@@ -416,6 +533,9 @@ export class FeaturePatternRegistry {
                 patterns: [
                     /@layer(?:\s+[\w-]+(?:\s*,\s*[\w-]+)*)?/gi
                 ],
+                css: {
+                    atRules: ['layer']
+                },
                 category: 'css',
                 subcategory: 'cascade',
                 riskLevel: 'moderate',
@@ -431,8 +551,11 @@ export class FeaturePatternRegistry {
                 id: 'color-mix',
                 aliases: ['css-color-mix'],
                 patterns: [
-                    /color-mix\s*KATEX_INLINE_OPEN[^)]+KATEX_INLINE_CLOSE/gi
+                    /color-mix\s*\([^)]+\)/gi
                 ],
+                css: {
+                    functions: ['color-mix']
+                },
                 category: 'css',
                 subcategory: 'color',
                 riskLevel: 'experimental',
@@ -450,8 +573,9 @@ export class FeaturePatternRegistry {
                 aliases: ['intersectionobserver', 'intersection-observer-api'],
                 patterns: [
                     /new\s+IntersectionObserver/gi,
-                    /IntersectionObserver\s*KATEX_INLINE_OPEN/gi
+                    /IntersectionObserver\s*\(/gi
                 ],
+                js: { globals: ['IntersectionObserver'] },
                 category: 'js',
                 subcategory: 'api',
                 riskLevel: 'safe',
@@ -465,8 +589,9 @@ export class FeaturePatternRegistry {
                 aliases: ['resizeobserver'],
                 patterns: [
                     /new\s+ResizeObserver/gi,
-                    /ResizeObserver\s*KATEX_INLINE_OPEN/gi
+                    /ResizeObserver\s*\(/gi
                 ],
+                js: { globals: ['ResizeObserver'] },
                 category: 'js',
                 subcategory: 'api',
                 riskLevel: 'safe',
@@ -480,8 +605,9 @@ export class FeaturePatternRegistry {
                 aliases: ['mutationobserver'],
                 patterns: [
                     /new\s+MutationObserver/gi,
-                    /MutationObserver\s*KATEX_INLINE_OPEN/gi
+                    /MutationObserver\s*\(/gi
                 ],
+                js: { globals: ['MutationObserver'] },
                 category: 'js',
                 subcategory: 'api',
                 riskLevel: 'safe',
@@ -493,9 +619,10 @@ export class FeaturePatternRegistry {
                 id: 'fetch',
                 aliases: ['fetch-api'],
                 patterns: [
-                    /\bfetch\s*KATEX_INLINE_OPEN/gi,
+                    /\bfetch\s*\(/gi,
                     /window\.fetch/gi
                 ],
+                js: { globals: ['fetch'] },
                 category: 'js',
                 subcategory: 'api',
                 riskLevel: 'safe',
@@ -514,6 +641,7 @@ export class FeaturePatternRegistry {
                     /class\s+\w+\s+extends\s+HTMLElement/gi,
                     /window\.customElements/gi
                 ],
+                js: { globals: ['customElements'], extends: ['HTMLElement'] },
                 category: 'js',
                 subcategory: 'components',
                 riskLevel: 'safe',
@@ -529,6 +657,7 @@ export class FeaturePatternRegistry {
                     /\.attachShadow/gi,
                     /\.shadowRoot/gi
                 ],
+                js: { members: ['attachShadow', 'shadowRoot'] },
                 category: 'js',
                 subcategory: 'components',
                 riskLevel: 'safe',
@@ -545,10 +674,11 @@ export class FeaturePatternRegistry {
                 aliases: ['promise'],
                 patterns: [
                     /new\s+Promise/gi,
-                    /\.then\s*KATEX_INLINE_OPEN/gi,
-                    /\.catch\s*KATEX_INLINE_OPEN/gi,
+                    /\.then\s*\(/gi,
+                    /\.catch\s*\(/gi,
                     /Promise\.(?:all|race|any|allSettled)/gi
                 ],
+                js: { globals: ['Promise'], members: ['then', 'catch'] },
                 category: 'js',
                 subcategory: 'async',
                 riskLevel: 'safe',
@@ -563,10 +693,11 @@ export class FeaturePatternRegistry {
                 aliases: ['async-functions'],
                 patterns: [
                     /async\s+function/gi,
-                    /async\s*KATEX_INLINE_OPEN/gi,
-                    /\basync\s+\w+\s*KATEX_INLINE_OPEN/gi,
+                    /async\s*\(/gi,
+                    /\basync\s+\w+\s*\(/gi,
                     /\bawait\s+/gi
                 ],
+                js: { syntax: ['async-await'] },
                 category: 'js',
                 subcategory: 'async',
                 riskLevel: 'safe',
@@ -582,6 +713,7 @@ export class FeaturePatternRegistry {
                 patterns: [
                     /\?\./gi
                 ],
+                js: { syntax: ['optional-chaining'] },
                 category: 'js',
                 subcategory: 'syntax',
                 riskLevel: 'safe',
@@ -596,6 +728,7 @@ export class FeaturePatternRegistry {
                 patterns: [
                     /\?\?(?!\?)/g // ?? but not ???
                 ],
+                js: { syntax: ['nullish-coalescing'] },
                 category: 'js',
                 subcategory: 'syntax',
                 riskLevel: 'safe',
@@ -609,8 +742,9 @@ export class FeaturePatternRegistry {
                 aliases: ['destructuring-assignment'],
                 patterns: [
                     /(?:const|let|var)\s*\{[^}]+\}\s*=/gi,
-                    /(?:const|let|var)\s*```math[^```]+```\s*=/gi
+                    /(?:const|let|var)\s*\[[^\]]+\]\s*=/gi
                 ],
+                js: { syntax: ['destructuring'] },
                 category: 'js',
                 subcategory: 'syntax',
                 riskLevel: 'safe',
@@ -624,6 +758,7 @@ export class FeaturePatternRegistry {
                 patterns: [
                     /\.{3}(?=[a-zA-Z_$])/g // ... followed by identifier
                 ],
+                js: { syntax: ['spread'] },
                 category: 'js',
                 subcategory: 'syntax',
                 riskLevel: 'safe',
@@ -640,6 +775,7 @@ export class FeaturePatternRegistry {
                     /\bexport\s+(?:default\s+)?(?:const|let|var|function|class)/gi,
                     /\bexport\s+\{/gi
                 ],
+                js: { syntax: ['modules'] },
                 category: 'js',
                 subcategory: 'modules',
                 riskLevel: 'safe',
@@ -651,13 +787,135 @@ export class FeaturePatternRegistry {
                 id: 'array-methods',
                 aliases: ['array-iteration-methods'],
                 patterns: [
-                    /\.(?:map|filter|reduce|find|findIndex|some|every|forEach|includes|flat|flatMap)\s*KATEX_INLINE_OPEN/gi
+                    /\.(?:map|filter|reduce|find|findIndex|some|every|forEach|includes|flat|flatMap)\s*\(/gi
                 ],
+                js: { members: ['map', 'filter', 'reduce', 'find', 'findIndex', 'some', 'every', 'forEach', 'includes', 'flat', 'flatMap'] },
                 category: 'js',
                 subcategory: 'arrays',
                 riskLevel: 'safe',
                 description: 'Modern Array Methods',
                 commonUseCases: ['Data transformation', 'Array manipulation']
+            },            
+            // ==========================================
+            // HTML ELEMENTS & ATTRIBUTES
+            // ==========================================
+            {
+                id: 'dialog',
+                aliases: ['dialog-element', 'html-dialog'],
+                patterns: [
+                    /<dialog\b/gi
+                ],
+                html: { elements: ['dialog'] },
+                category: 'html',
+                subcategory: 'elements',
+                riskLevel: 'safe',
+                complementary: ['popover', 'inert'],
+                description: 'Dialog element (<dialog>)',
+                commonUseCases: ['Modals', 'Confirmation prompts']
+            },
+            
+            {
+                id: 'popover',
+                aliases: ['popover-api', 'popover-attribute'],
+                patterns: [
+                    /\bpopover(?:target|targetaction)?(?=[\s=>])/gi
+                ],
+                html: { attributes: ['popover', 'popovertarget', 'popovertargetaction'] },
+                category: 'html',
+                subcategory: 'attributes',
+                riskLevel: 'moderate',
+                alternatives: ['dialog'],
+                description: 'Popover attribute',
+                commonUseCases: ['Menus', 'Tooltips', 'Toggletips']
+            },
+            
+            {
+                id: 'loading-lazy',
+                aliases: ['lazy-loading', 'loading-attribute'],
+                patterns: [
+                    /\bloading\s*=\s*["']?lazy\b/gi
+                ],
+                html: { attributes: ['loading=lazy'] },
+                category: 'html',
+                subcategory: 'attributes',
+                riskLevel: 'safe',
+                alternatives: ['intersection-observer'],
+                description: 'Lazy-loading images and iframes (loading="lazy")',
+                commonUseCases: ['Deferred images', 'Offscreen iframes']
+            },
+            
+            {
+                id: 'template',
+                aliases: ['html-templates', 'template-element'],
+                patterns: [
+                    /<template\b/gi
+                ],
+                html: { elements: ['template'] },
+                category: 'html',
+                subcategory: 'elements',
+                riskLevel: 'safe',
+                complementary: ['custom-elements', 'shadow-dom'],
+                description: 'Template element (<template>)',
+                commonUseCases: ['Client-side rendering', 'Web components']
+            },
+            
+            {
+                id: 'declarative-shadow-dom',
+                aliases: ['shadowrootmode'],
+                patterns: [
+                    /\bshadowrootmode\s*=/gi
+                ],
+                html: { attributes: ['shadowrootmode'] },
+                category: 'html',
+                subcategory: 'attributes',
+                riskLevel: 'moderate',
+                alternatives: ['shadow-dom'],
+                complementary: ['template', 'custom-elements'],
+                description: 'Declarative Shadow DOM',
+                commonUseCases: ['Server-rendered web components']
+            },
+            
+            {
+                id: 'inert',
+                aliases: ['inert-attribute'],
+                patterns: [
+                    /\binert(?=[\s=>])/gi
+                ],
+                html: { attributes: ['inert'] },
+                category: 'html',
+                subcategory: 'attributes',
+                riskLevel: 'moderate',
+                complementary: ['dialog'],
+                description: 'Inert attribute',
+                commonUseCases: ['Focus trapping', 'Disabling background content']
+            },
+            
+            {
+                id: 'details',
+                aliases: ['details-element', 'summary'],
+                patterns: [
+                    /<details\b/gi
+                ],
+                html: { elements: ['details'] },
+                category: 'html',
+                subcategory: 'elements',
+                riskLevel: 'safe',
+                description: 'Details disclosure element (<details>)',
+                commonUseCases: ['Accordions', 'FAQs']
+            },
+            
+            {
+                id: 'input-date-time',
+                aliases: ['date-input', 'input-date'],
+                patterns: [
+                    /\btype\s*=\s*["']?(?:date|datetime-local|month|time|week)\b/gi
+                ],
+                html: { attributes: ['type=date', 'type=datetime-local', 'type=month', 'type=time', 'type=week'] },
+                category: 'html',
+                subcategory: 'forms',
+                riskLevel: 'safe',
+                description: 'Date and time <input> types',
+                commonUseCases: ['Date pickers', 'Scheduling forms']
             }
         ];
         
@@ -665,6 +923,15 @@ export class FeaturePatternRegistry {
         definitions.forEach(def => this.registerPattern(def));
     }
     
+    /**
+     * Register definitions generated from web-features compat keys for every
+     * feature the hand-written definitions above do not cover
+     */
+    private registerGeneratedPatterns(): void {
+        mergeGeneratedDefinitions(Array.from(this.patterns.values()), getGeneratedPatternDefinitions())
+            .forEach(def => this.registerPattern(def));
+    }
+    
     private registerPattern(definition: FeaturePatternDefinition): void {
         // Store main definition
         this.patterns.set(definition.id, definition);
@@ -686,6 +953,10 @@ export class FeaturePatternRegistry {
             }
             this.categoryIndex.get(def.category)!.add(id);
         });
+
+        this.cssDetector = new CssFeatureDetector(Array.from(this.patterns.values()));
+        this.jsDetector = new JsFeatureDetector(Array.from(this.patterns.values()));
+        this.htmlDetector = new HtmlFeatureDetector(Array.from(this.patterns.values()));
     }
     
     // ==========================================
@@ -728,37 +999,127 @@ export class FeaturePatternRegistry {
     }
     
     /**
-     * Detect features in text
+     * Detect features in text. Guarded usages are counted too; use
+     * findMatches to tell them apart.
      */
     public detectFeatures(text: string, languageId?: string): Map<string, number> {
         const detected = new Map<string, number>();
-        
+
+        this.findMatches(text, languageId).forEach(match => {
+            detected.set(match.featureId, (detected.get(match.featureId) || 0) + 1);
+        });
+
+        return detected;
+    }
+
+    /**
+     * Find every feature occurrence in text, with offsets. Matches from a
+     * structured matcher carry their exact BCD key; matches inside an
+     * `@supports` block or a JS feature-detection branch for the same
+     * feature carry the guarding condition. For scripts, `declared` names
+     * bindings made outside the text that shadow globals.
+     */
+    public findMatches(text: string, languageId?: string, declared?: Set<string>): FeatureMatch[] {
+        const matches = this.matchPatterns(text, languageId, declared);
+
+        const { matcherToKey } = getCompatKeyIndex();
+        matches.forEach(match => {
+            const compatKey = match.matcher && matcherToKey.get(match.matcher);
+            if (compatKey) {
+                match.compatKey = compatKey;
+            }
+        });
+
+        const guards = findFeatureGuards(text, languageId, condition =>
+            this.matchPatterns(`@supports ${condition} {}`, 'css').map(match => match.featureId)
+        );
+        if (guards.length > 0) {
+            matches.forEach(match => {
+                const guard = findGuard(guards, match.start, [match.featureId], match.text);
+                if (guard) {
+                    match.guard = guard.condition;
+                }
+            });
+        }
+
+        return matches;
+    }
+
+    private matchPatterns(text: string, languageId?: string, declared?: Set<string>): FeatureMatch[] {
+        // Stylesheets are tokenized; regexes only cover definitions without CSS matchers
+        if (languageId && CssFeatureDetector.supportsLanguage(languageId)) {
+            return [
+                ...this.cssDetector.detect(text, languageId),
+                ...this.matchRegexes(text, this.getPatternsByCategory('css').filter(p => !p.css))
+            ];
+        }
+
+        // Scripts are parsed; regexes only cover definitions without JS matchers
+        if (languageId && JsFeatureDetector.supportsLanguage(languageId)) {
+            return [
+                ...this.jsDetector.detect(text, languageId, declared),
+                ...this.matchRegexes(text, this.getPatternsByCategory('js').filter(p => !p.js))
+            ];
+        }
+
+        if (languageId && HtmlFeatureDetector.supportsLanguage(languageId)) {
+            return this.matchMarkup(text, languageId);
+        }
+
         // Filter patterns by language if provided
         let patternsToCheck = Array.from(this.patterns.values());
         if (languageId) {
             const category = this.languageToCategory(languageId);
             if (category) {
-                patternsToCheck = patternsToCheck.filter(p => 
-                    p.category === category || category === 'html' // HTML can contain both CSS and JS
-                );
+                patternsToCheck = patternsToCheck.filter(p => p.category === category);
             }
         }
-        
+
+        return this.matchRegexes(text, patternsToCheck);
+    }
+
+    /**
+     * Markup features plus every embedded stylesheet and script, each routed
+     * to its own detector and shifted back to document offsets
+     */
+    private matchMarkup(text: string, languageId: string): FeatureMatch[] {
+        const matches = [
+            ...this.htmlDetector.detect(text, languageId),
+            ...this.matchRegexes(text, this.getPatternsByCategory('html').filter(p => !p.html))
+        ];
+
+        extractEmbeddedRegions(text).forEach(region => {
+            const content = text.slice(region.start, region.end);
+            // `style=""` declarations are wrapped in a rule so they parse as declarations
+            const source = region.declarations ? `*{${content}}` : content;
+            const shift = region.start - (region.declarations ? 2 : 0);
+
+            this.matchPatterns(source, region.languageId).forEach(match => {
+                matches.push({ ...match, start: match.start + shift, end: match.end + shift });
+            });
+        });
+
+        return matches;
+    }
+
+    private matchRegexes(text: string, patternsToCheck: FeaturePatternDefinition[]): FeatureMatch[] {
+        const matches: FeatureMatch[] = [];
+
         // Check each pattern
         patternsToCheck.forEach(pattern => {
-            let totalMatches = 0;
-            
             pattern.patterns.forEach(regex => {
-                const matches = Array.from(text.matchAll(regex));
-                totalMatches += matches.length;
+                for (const match of text.matchAll(regex)) {
+                    matches.push({
+                        featureId: pattern.id,
+                        start: match.index!,
+                        end: match.index! + match[0].length,
+                        text: match[0]
+                    });
+                }
             });
-            
-            if (totalMatches > 0) {
-                detected.set(pattern.id, totalMatches);
-            }
         });
-        
-        return detected;
+
+        return matches;
     }
     
     /**
@@ -0,0 +1,243 @@
+import { FeatureMatch, FeaturePatternRegistry } from './FeaturePatternRegistry';
+import { getTopLevelBindings, JsFeatureDetector } from './detectors/JsFeatureDetector';
+
+interface TextRange {
+    start: number;
+    end: number;
+}
+
+// Brace-delimited languages. Markup mixes languages and indented syntaxes
+// (Sass, Stylus) have no reliable block ends; both are always scanned whole.
+const INCREMENTAL_LANGUAGES = new Set([
+    'css', 'scss', 'less', 'javascript', 'typescript', 'javascriptreact', 'typescriptreact'
+]);
+
+// Plain CSS has no line comments: `//` is part of urls there
+const LINE_COMMENT_LANGUAGES = new Set([
+    'scss', 'less', 'javascript', 'typescript', 'javascriptreact', 'typescriptreact'
+]);
+
+const CLOSING_BRACKETS: Record<string, string> = { '{': '}', '(': ')', '[': ']' };
+
+/**
+ * Feature matches of one open document, kept current while it is edited.
+ *
+ * Edits shift the cached matches; on the next request only the top-level
+ * blocks (rules, statements) containing an edit are detected again. Markup
+ * languages, and edits touching most of the text, fall back to a full scan.
+ * Script blocks are detected with the file's top-level bindings in scope,
+ * and a change to those bindings rescans the whole file.
+ * While an edit leaves a quote, bracket or comment unbalanced, blocks can
+ * split differently than in a full scan and keep stale matches; call
+ * `reset` (e.g. on save) to start over from a full scan.
+ * Offsets follow the document text, so the edits must be applied in order.
+ */
+export class IncrementalMatcher {
+    private matches: FeatureMatch[] | undefined;
+    private dirty: TextRange[] = [];
+    private boundaries: number[] = [];        // Block starts as of the last scan, moved along with edits
+    private length = 0;
+    private bindings: string | undefined;     // Top-level bindings of a script as of the last scan
+
+    constructor(private registry: FeaturePatternRegistry, private languageId: string) {}
+
+    /**
+     * Record an edit replacing `length` characters at `offset` with `text`
+     */
+    public applyChange(offset: number, length: number, text: string): void {
+        if (!this.matches) {
+            return;
+        }
+
+        const end = offset + length;
+        const delta = text.length - length;
+        const shift = (position: number) => position >= end ? position + delta : Math.min(position, offset + text.length);
+
+        // Matches touching the edit are detected again with their block
+        this.matches = this.matches
+            .filter(match => match.end < offset || match.start > end)
+            .map(match => match.start > end ? { ...match, start: match.start + delta, end: match.end + delta } : match);
+
+        this.boundaries = this.boundaries
+            .filter(boundary => boundary <= offset || boundary > end)
+            .map(boundary => boundary > end ? boundary + delta : boundary);
+        this.dirty = this.dirty.map(range => ({ start: shift(range.start), end: shift(range.end) }));
+        this.dirty.push({ start: offset, end: offset + text.length });
+        this.length += delta;
+    }
+
+    /**
+     * Drop the cached matches: the next request scans the whole text
+     */
+    public reset(): void {
+        this.matches = undefined;
+    }
+
+    /**
+     * Matches for the current document text
+     */
+    public getMatches(text: string): FeatureMatch[] {
+        // A missed edit shows as a length mismatch; start over
+        if (!this.matches || text.length !== this.length || !INCREMENTAL_LANGUAGES.has(this.languageId)) {
+            return this.scanAll(text);
+        }
+        if (this.dirty.length === 0) {
+            return this.matches;
+        }
+
+        const boundaries = this.findBoundaries(text);
+        const blocks = this.findBlocks(text, boundaries);
+        const changed = blocks.reduce((total, block) => total + block.end - block.start, 0);
+        if (changed > text.length / 2) {
+            return this.scanAll(text);
+        }
+
+        // An import or declaration added or removed changes what every block refers to
+        const declared = this.getBindings(text);
+        if (declared && this.toKey(declared) !== this.bindings) {
+            return this.scanAll(text);
+        }
+
+        const kept = this.matches.filter(match => !blocks.some(block => match.start < block.end && match.end > block.start));
+        const detected = blocks.flatMap(block => this.registry.findMatches(text.slice(block.start, block.end), this.languageId, declared)
+            .map(match => ({ ...match, start: match.start + block.start, end: match.end + block.start })));
+
+        this.matches = [...kept, ...detected].sort((a, b) => a.start - b.start);
+        this.boundaries = boundaries;
+        this.dirty = [];
+        return this.matches;
+    }
+
+    private scanAll(text: string): FeatureMatch[] {
+        this.matches = this.registry.findMatches(text, this.languageId);
+        this.boundaries = INCREMENTAL_LANGUAGES.has(this.languageId) ? this.findBoundaries(text) : [];
+        this.dirty = [];
+        this.length = text.length;
+        const declared = INCREMENTAL_LANGUAGES.has(this.languageId) ? this.getBindings(text) : undefined;
+        this.bindings = declared && this.toKey(declared);
+        return this.matches;
+    }
+
+    private getBindings(text: string): Set<string> | undefined {
+        return JsFeatureDetector.supportsLanguage(this.languageId) ? getTopLevelBindings(text, this.languageId) : undefined;
+    }
+
+    private toKey(bindings: Set<string>): string {
+        return Array.from(bindings).sort().join(',');
+    }
+
+    /**
+     * The top-level blocks containing the edits, merged and in order. An edit
+     * can open or close blocks further away, e.g. by pairing quotes
+     * differently, so a block grows until it covers whole blocks of both the
+     * previous and the current text.
+     */
+    private findBlocks(text: string, boundaries: number[]): TextRange[] {
+        // Last boundary at or before the start, first one at or after the end
+        const cover = (range: TextRange, starts: number[]): TextRange => {
+            let start = 0;
+            let end = text.length;
+            for (const boundary of starts) {
+                if (boundary <= range.start) {
+                    start = boundary;
+                }
+                if (boundary >= range.end) {
+                    end = boundary;
+                    break;
+                }
+            }
+            return { start, end };
+        };
+
+        const around = this.dirty.map(range => {
+            // Include the character after the edit: matches touching it were dropped
+            let block = { start: range.start, end: range.end + 1 };
+            for (;;) {
+                const before = cover(block, this.boundaries);
+                const after = cover(block, boundaries);
+                const grown = { start: Math.min(before.start, after.start), end: Math.max(before.end, after.end) };
+                if (grown.start === block.start && grown.end === block.end) {
+                    return block;
+                }
+                block = grown;
+            }
+        });
+
+        const blocks: TextRange[] = [];
+        for (const block of around.sort((a, b) => a.start - b.start)) {
+            const last = blocks[blocks.length - 1];
+            if (last && block.start <= last.end) {
+                last.end = Math.max(last.end, block.end);
+            } else {
+                blocks.push(block);
+            }
+        }
+        return blocks;
+    }
+
+    /**
+     * Offsets of the lines that start a top-level construct: not indented,
+     * outside brackets, strings and comments, and after a closed block or
+     * statement
+     */
+    private findBoundaries(text: string): number[] {
+        const lineComments = LINE_COMMENT_LANGUAGES.has(this.languageId);
+        const boundaries: number[] = [0];
+        const open: string[] = [];                // Expected closing brackets
+        let quote: string | undefined;
+        let comment: 'line' | 'block' | undefined;
+        let last: string | undefined;             // Last character outside comments and whitespace
+
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+
+            if (char === '\n') {
+                if (comment === 'line') {
+                    comment = undefined;
+                }
+                // Only template literals span lines
+                if (quote && quote !== '`') {
+                    quote = undefined;
+                }
+                const next = text[i + 1];
+                const closed = last === undefined || last === '}' || last === ';';
+                if (open.length === 0 && closed && !quote && !comment && next && /[^\s})\]]/.test(next)) {
+                    boundaries.push(i + 1);
+                }
+            } else if (comment === 'block') {
+                if (char === '*' && text[i + 1] === '/') {
+                    comment = undefined;
+                    i++;
+                }
+            } else if (comment) {
+                continue;
+            } else if (quote) {
+                if (char === '\\') {
+                    i++;
+                } else if (char === quote) {
+                    quote = undefined;
+                }
+                last = char;
+            } else if (char === '/' && text[i + 1] === '*') {
+                comment = 'block';
+                i++;
+            } else if (char === '/' && text[i + 1] === '/' && lineComments) {
+                comment = 'line';
+            } else if (char === ' ' || char === '\t' || char === '\r') {
+                continue;
+            } else {
+                if (char === '"' || char === '\'' || char === '`') {
+                    quote = char;
+                } else if (CLOSING_BRACKETS[char]) {
+                    open.push(CLOSING_BRACKETS[char]);
+                } else if (char === open[open.length - 1]) {
+                    // Stray closing brackets are ignored, like CSS parsers do
+                    open.pop();
+                }
+                last = char;
+            }
+        }
+
+        return boundaries;
+    }
+}
@@ -0,0 +1,124 @@
+/**
+ * Inline suppression comments, shared by diagnostics, project analysis and the CLI.
+ * Any block or line comment may carry a directive:
+ * - `baseline-ignore [ids]`            the comment's line, or the next line when the comment stands alone
+ * - `baseline-ignore-next-line [ids]`  the next line
+ * - `baseline-disable [ids]`           the whole file
+ *
+ * Feature IDs (comma or space separated) are optional; without them every
+ * feature is suppressed. e.g. `/* baseline-ignore has, subgrid *\/`
+ */
+
+type Scope = Set<string> | 'all';
+
+const COMMENT_REGEX = /\/\*([\s\S]*?)\*\/|\/\/([^\n]*)/g;
+const DIRECTIVE_REGEX = /^\s*\**\s*baseline-(ignore-next-line|ignore|disable)\b([^\n]*)/;
+
+const SCRIPT_LANGUAGES = new Set(['javascript', 'typescript', 'javascriptreact', 'typescriptreact']);
+const STYLESHEET_LANGUAGES = new Set(['css', 'scss', 'less', 'sass']);
+
+export class InlineSuppressions {
+    private lines: Map<number, Scope> = new Map();
+    private file: Scope | undefined;
+
+    private constructor() {}
+
+    /**
+     * Collect suppression directives from source text. Line numbers are zero-based.
+     */
+    public static parse(text: string): InlineSuppressions {
+        const suppressions = new InlineSuppressions();
+
+        // Cheap bail-out for the common case
+        if (!text.includes('baseline-')) {
+            return suppressions;
+        }
+
+        for (const comment of text.matchAll(COMMENT_REGEX)) {
+            const body = comment[1] ?? comment[2];
+            const directive = DIRECTIVE_REGEX.exec(body);
+            if (!directive) {
+                continue;
+            }
+
+            const ids = directive[2].split(/[\s,]+/).filter(Boolean);
+            const start = comment.index!;
+            const end = start + comment[0].length;
+            const line = countLines(text, end);
+
+            switch (directive[1]) {
+                case 'disable':
+                    suppressions.file = merge(suppressions.file, ids);
+                    break;
+                case 'ignore-next-line':
+                    suppressions.addLine(line + 1, ids);
+                    break;
+                default:
+                    // A comment on a line of its own covers the following line
+                    suppressions.addLine(isAlone(text, start, end) ? line + 1 : line, ids);
+            }
+        }
+
+        return suppressions;
+    }
+
+    public isEmpty(): boolean {
+        return !this.file && this.lines.size === 0;
+    }
+
+    /**
+     * Whether a match on `line` is suppressed. `featureIds` lists every ID the
+     * match is known by (web-features ID, pattern ID).
+     */
+    public isSuppressed(featureIds: string[], line: number): boolean {
+        return covers(this.file, featureIds) || covers(this.lines.get(line), featureIds);
+    }
+
+    private addLine(line: number, ids: string[]): void {
+        this.lines.set(line, merge(this.lines.get(line), ids));
+    }
+}
+
+/**
+ * Comment suppressing `ids` on the line after it, in the comment syntax of the
+ * language. Undefined for markup: HTML comments carry no directives.
+ */
+export function formatSuppression(languageId: string, ids: string[]): string | undefined {
+    const directive = `baseline-ignore-next-line ${ids.join(', ')}`.trim();
+    if (SCRIPT_LANGUAGES.has(languageId)) {
+        return `// ${directive}`;
+    }
+    return STYLESHEET_LANGUAGES.has(languageId) ? `/* ${directive} */` : undefined;
+}
+
+function merge(scope: Scope | undefined, ids: string[]): Scope {
+    if (ids.length === 0 || scope === 'all') {
+        return 'all';
+    }
+    return new Set([...(scope || []), ...ids]);
+}
+
+function covers(scope: Scope | undefined, featureIds: string[]): boolean {
+    if (!scope) {
+        return false;
+    }
+    return scope === 'all' || featureIds.some(id => scope.has(id));
+}
+
+function countLines(text: string, offset: number): number {
+    let line = 0;
+    for (let i = 0; i < offset; i++) {
+        if (text.charCodeAt(i) === 10) {
+            line++;
+        }
+    }
+    return line;
+}
+
+function isAlone(text: string, start: number, end: number): boolean {
+    const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+    const lineEnd = text.indexOf('\n', end);
+    const before = text.slice(lineStart, start);
+    const after = text.slice(end, lineEnd === -1 ? text.length : lineEnd);
+    return before.trim() === '' && after.trim() === '';
+}
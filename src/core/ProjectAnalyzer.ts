@@ -1,263 +1,221 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { InvertedIndex } from './InvertedIndex';
-import { FeaturePatternRegistry } from './FeaturePatternRegistry';
-import { Feature } from '../types';
+import { AnalysisAggregator, PackageAnalysis, ProjectAnalysis } from './AnalysisAggregator';
+import { ConfigurationManager } from './ConfigurationManager';
+import { CompatibilityEvaluator } from './CompatibilityEvaluator';
+import { formatTargets, loadBrowserslistConfig, resolveBrowserslistQuery } from './BrowserslistResolver';
+import { IndexedFile, WorkspaceIndex } from './WorkspaceIndex';
+import { BROWSERSLIST_FILES, detectWorkspacePackages, findPackage, WorkspacePackage } from './WorkspacePackages';
+import { ScanWorkerPool } from './workers/ScanWorkerPool';
 
-export interface ProjectFeature {
-    feature: Feature;
-    usageCount: number;
-    files: string[];
-    locations: Array<{
-        file: string;
-        line: number;
-        column: number;
-        context: string;
-    }>;
+export { ProjectFeature, ProjectAnalysis, PackageAnalysis } from './AnalysisAggregator';
+
+interface PackageScope {
+    pkg?: WorkspacePackage;               // Undefined for the files of a workspace folder outside any package
+    folder: vscode.WorkspaceFolder;
+    evaluator: CompatibilityEvaluator;
+    result: PackageAnalysis;
 }
 
-export interface ProjectAnalysis {
-    features: Map<string, ProjectFeature>;
-    totalFiles: number;
-    analyzedFiles: number;
-    compatibilityScore: number;
-    riskFeatures: ProjectFeature[];
-    safeFeatures: ProjectFeature[];
-    suggestions: string[];
-    timestamp: Date;
+export interface ProjectAnalyzerOptions {
+    storageUri?: vscode.Uri;              // Persists the feature index between sessions; in memory otherwise
+    indexVersion?: string;                // Invalidates stored scans when detection changes, e.g. on updates
+    workerScript?: string;                // Bundled scan worker; detection runs on this thread without it
 }
 
-export class ProjectAnalyzer {
-    private patternRegistry: FeaturePatternRegistry;
-    private analysisCache: Map<string, ProjectAnalysis> = new Map();
-    private cacheTimeout: number = 5 * 60 * 1000; // 5 minutes
-    
-    constructor(private index: InvertedIndex) {
-        this.patternRegistry = new FeaturePatternRegistry();
+// Minimum time between partial results
+const PARTIAL_INTERVAL = 500;
+
+export class ProjectAnalyzer implements vscode.Disposable {
+    private aggregator: AnalysisAggregator;
+    private workspaceIndex: WorkspaceIndex;
+    private pool: ScanWorkerPool | undefined;
+
+    constructor(private index: InvertedIndex, options: ProjectAnalyzerOptions = {}) {
+        this.aggregator = new AnalysisAggregator(
+            index,
+            ConfigurationManager.getInstance().getCompatibilityEvaluator()
+        );
+        this.pool = options.workerScript ? new ScanWorkerPool(options.workerScript) : undefined;
+        this.workspaceIndex = new WorkspaceIndex(this.aggregator, options.storageUri, options.indexVersion || '', this.pool);
     }
-    
-    public async analyzeProject(): Promise<ProjectAnalysis> {
+
+    /**
+     * Analyze all workspace source files. `onPartial` receives the analysis
+     * of the files scanned so far while the scan runs. When the user cancels,
+     * the result covers only the files analyzed until then.
+     */
+    public async analyzeProject(onPartial?: (analysis: ProjectAnalysis) => void): Promise<ProjectAnalysis> {
         const workspaceFolders = vscode.workspace.workspaceFolders;
         if (!workspaceFolders) {
             throw new Error('No workspace folder open');
         }
-        
-        const workspacePaths = workspaceFolders.map(folder => folder.uri.fsPath).sort();
-        const cacheKey = `analysis_${workspacePaths.join('_')}`;
-        
-        const cachedAnalysis = this.analysisCache.get(cacheKey);
-        if (cachedAnalysis && this.isCacheValid(cachedAnalysis)) {
-            return cachedAnalysis;
-        }
-        
-        const analysis: ProjectAnalysis = {
-            features: new Map(),
-            totalFiles: 0,
-            analyzedFiles: 0,
-            compatibilityScore: 100,
-            riskFeatures: [],
-            safeFeatures: [],
-            suggestions: [],
-            timestamp: new Date()
-        };
-        
-        const files = await vscode.workspace.findFiles(
-            '**/*.{css,scss,less,sass,js,jsx,ts,tsx,html,vue,svelte}',
-            '**/node_modules/**',
-            1000
-        );
-        
-        analysis.totalFiles = files.length;
-        
-        await vscode.window.withProgress({
-            location: vscode.ProgressLocation.Notification,
-            title: 'Analyzing project features...',
-            cancellable: false
-        }, async (progress) => {
-            for (let i = 0; i < files.length; i++) {
-                const file = files[i];
-                progress.report({ 
-                    increment: (100 / files.length),
-                    message: `Analyzing ${path.basename(file.fsPath)}...`
-                });
-                
-                try {
-                    const document = await vscode.workspace.openTextDocument(file);
-                    await this.analyzeDocument(document, analysis);
-                    analysis.analyzedFiles++;
-                } catch (error) {
-                }
+
+        // Policy and targets are applied on every run; only detection is cached
+        this.aggregator.setPolicy(ConfigurationManager.getInstance().getPolicy());
+        const analysis = this.aggregator.createAnalysis();
+        const scopes = await this.detectPackages(workspaceFolders);
+
+        let lastPartial = Date.now();
+        await this.updateIndex('Analyzing project features...', vscode.ProgressLocation.Notification, file => {
+            this.addFile(file, analysis);
+            const scope = this.findScope(scopes, file.uri);
+            if (scope) {
+                this.addFile(file, scope.result.analysis);
             }
+
+            if (onPartial && Date.now() - lastPartial >= PARTIAL_INTERVAL) {
+                lastPartial = Date.now();
+                this.aggregator.finalize(analysis);
+                onPartial(analysis);
+            }
+        }, total => analysis.totalFiles = total);
+
+        analysis.exclusions = this.workspaceIndex.getExclusions();
+        scopes.forEach(scope => {
+            scope.result.analysis.totalFiles = scope.result.analysis.analyzedFiles;
+            this.aggregator.finalize(scope.result.analysis, scope.evaluator);
         });
-        
-        await this.calculateCompatibility(analysis);
-        this.generateSuggestions(analysis);
-        
-        this.analysisCache.set(cacheKey, analysis);
-        this.scheduleCacheCleanup(cacheKey);
-        
+        analysis.packages = scopes.length > 0
+            ? scopes.filter(scope => scope.pkg || scope.result.analysis.analyzedFiles > 0).map(scope => scope.result)
+            : undefined;
+        this.aggregator.finalize(analysis);
         return analysis;
     }
-    
-    private async analyzeDocument(document: vscode.TextDocument, analysis: ProjectAnalysis): Promise<void> {
-        const text = document.getText();
-        const fileName = path.basename(document.fileName);
-        
-        // Use pattern registry to detect features
-        const detectedFeatures = this.patternRegistry.detectFeatures(text, document.languageId);
-        
-        // Process each detected feature
-        for (const [patternId, matchCount] of detectedFeatures) {
-            // Resolve to actual feature from web-features
-            let feature = this.index.getFeature(patternId);
-            
-            // If not found, try to find by pattern aliases
-            if (!feature) {
-                const pattern = this.patternRegistry.getPattern(patternId);
-                if (pattern) {
-                    // Try all aliases
-                    for (const alias of pattern.aliases) {
-                        feature = this.index.getFeature(alias);
-                        if (feature) break;
+
+    /**
+     * Per-file scans of all workspace source files, before the project
+     * policy is applied. Cancelling returns the files scanned so far.
+     */
+    public async indexWorkspace(location = vscode.ProgressLocation.Notification): Promise<IndexedFile[]> {
+        return this.updateIndex('Checking workspace compatibility...', location);
+    }
+
+    /**
+     * Re-scan one file after it changed on disk; undefined when it is not analyzed
+     */
+    public updateFile(uri: vscode.Uri): Promise<IndexedFile | undefined> {
+        return this.workspaceIndex.updateFile(uri);
+    }
+
+    public dispose(): void {
+        this.workspaceIndex.dispose();
+        this.pool?.dispose();
+    }
+
+    private updateIndex(
+        title: string,
+        location: vscode.ProgressLocation,
+        onFile?: (file: IndexedFile) => void,
+        onTotal?: (total: number) => void
+    ): Thenable<IndexedFile[]> {
+        return vscode.window.withProgress({
+            location,
+            title,
+            cancellable: location === vscode.ProgressLocation.Notification
+        }, (progress, token) => {
+            const started = Date.now();
+            let reported = 0;
+
+            return this.workspaceIndex.update({
+                token,
+                onFile,
+                onProgress: (done, total) => {
+                    onTotal?.(total);
+
+                    // Unchanged files come from the index, so throttle to whole percents
+                    const percent = Math.floor((done / total) * 100);
+                    if (percent > reported) {
+                        const seconds = Math.max((Date.now() - started) / 1000, 0.001);
+                        progress.report({
+                            increment: percent - reported,
+                            message: `${done}/${total} files (${Math.round(done / seconds)} files/s)`
+                        });
+                        reported = percent;
                     }
                 }
-            }
-            
-            // If still not found, create synthetic feature
-            if (!feature) {
-                const pattern = this.patternRegistry.getPattern(patternId);
-                feature = {
-                    id: patternId,
-                    name: pattern?.description || patternId.replace(/-/g, ' '),
-                    description: pattern?.description,
-                    spec: {
-                        category: pattern?.subcategory || 'other' // Use subcategory as category
-                    },
-                    status: {
-                        baseline: pattern?.riskLevel === 'safe' ? 'widely' : 
-                                pattern?.riskLevel === 'experimental' ? 'limited' : 'newly'
-                    }
-                };
-            }
-            
-            // Get or create project feature entry
-            const actualFeatureId = feature.id;
-            if (!analysis.features.has(actualFeatureId)) {
-                analysis.features.set(actualFeatureId, {
-                    feature,
-                    usageCount: 0,
-                    files: [],
-                    locations: []
-                });
-            }
-            
-            const projectFeature = analysis.features.get(actualFeatureId)!;
-            projectFeature.usageCount += matchCount;
-            
-            if (!projectFeature.files.includes(fileName)) {
-                projectFeature.files.push(fileName);
-            }
-            
-            // Find actual locations
-            const pattern = this.patternRegistry.getPattern(patternId);
-            if (pattern) {
-                pattern.patterns.forEach(regex => {
-                    const matches = Array.from(text.matchAll(regex));
-                    matches.forEach(match => {
-                        const position = document.positionAt(match.index!);
-                        projectFeature.locations.push({
-                            file: fileName,
-                            line: position.line + 1,
-                            column: position.character + 1,
-                            context: match[0]
-                        });
-                    });
-                });
-            }
-        }
+            });
+        });
     }
-    
-    private async calculateCompatibility(analysis: ProjectAnalysis): Promise<void> {
-        let totalScore = 0;
-        let featureCount = 0;
-        
-        analysis.riskFeatures = [];
-        analysis.safeFeatures = [];
-        
-        for (const [featureId, projectFeature] of analysis.features) {
-            const feature = projectFeature.feature;
-            const baseline = feature.status?.baseline;
-            
-            let score = 0;
-            if (baseline === 'widely') {
-                score = 100;
-                analysis.safeFeatures.push(projectFeature);
-            } else if (baseline === 'newly') {
-                score = 70;
-                analysis.riskFeatures.push(projectFeature);
-            } else if (baseline === 'limited' || !baseline) {
-                score = 30;
-                analysis.riskFeatures.push(projectFeature);
-            } else {
-                score = 50;
+
+    /**
+     * Workspace packages of a monorepo or multi-root workspace, each with the
+     * evaluator for its own targets: the package's browserslist, else its
+     * workspace folder's. Empty for a single plain project.
+     */
+    private async detectPackages(folders: readonly vscode.WorkspaceFolder[]): Promise<PackageScope[]> {
+        const configManager = ConfigurationManager.getInstance();
+        const sharedEvaluator = configManager.getCompatibilityEvaluator();
+
+        // Package browserslist configs rank like the workspace one: below the policy,
+        // an explicit query in settings and Baseline targets
+        const source = configManager.getTargetSource();
+        const usePackageTargets = configManager.getConfiguration().detectBrowserslist &&
+            !configManager.getBaselineTarget() && (source === 'settings' || source === 'browserslist-workspace');
+
+        const createEvaluator = (queries: string[] | undefined, fallback: CompatibilityEvaluator) => {
+            if (!queries || !usePackageTargets) {
+                return fallback;
             }
-            
-            const weight = Math.log(projectFeature.usageCount + 1);
-            totalScore += score * weight;
-            featureCount += weight;
-        }
-        
-        analysis.compatibilityScore = featureCount > 0 
-            ? Math.round(totalScore / featureCount) 
-            : 100;
-            
-        analysis.riskFeatures.sort((a, b) => b.usageCount - a.usageCount);
-        analysis.safeFeatures.sort((a, b) => b.usageCount - a.usageCount);
-    }
-    
-    private generateSuggestions(analysis: ProjectAnalysis): void {
-        const suggestions: string[] = [];
-        
-        if (analysis.compatibilityScore >= 90) {
-            suggestions.push('✅ Excellent! Your project has great browser compatibility.');
-        } else if (analysis.compatibilityScore >= 70) {
-            suggestions.push('⚠️ Good compatibility, but some features may need fallbacks.');
-        } else {
-            suggestions.push('❌ Several compatibility issues found. Consider adding polyfills or alternatives.');
-        }
-        
-        if (analysis.riskFeatures.length > 0) {
-            suggestions.push(`\n🔍 Found ${analysis.riskFeatures.length} features with limited support:`);
-            
-            analysis.riskFeatures.slice(0, 5).forEach(rf => {
-                const featureName = rf.feature.name || rf.feature.id;
-                suggestions.push(`  • ${featureName}: Used ${rf.usageCount} times in ${rf.files.length} file(s)`);
-                
-                const alternatives = this.patternRegistry.getAlternatives(rf.feature.id);
-                if (alternatives.length > 0) {
-                    suggestions.push(`    → Alternatives: ${alternatives.join(', ')}`);
+            try {
+                return new CompatibilityEvaluator(resolveBrowserslistQuery(queries));
+            } catch (error) {
+                // Invalid query: keep the enclosing targets
+                return fallback;
+            }
+        };
+
+        const scopes: PackageScope[] = [];
+        const createScope = (folder: vscode.WorkspaceFolder, folderEvaluator: CompatibilityEvaluator, pkg?: WorkspacePackage): PackageScope => {
+            const evaluator = createEvaluator(pkg?.browserslist, folderEvaluator);
+            return {
+                pkg,
+                folder,
+                evaluator,
+                result: {
+                    name: pkg?.name || folder.name,
+                    path: pkg?.relativePath || '.',
+                    targets: evaluator === sharedEvaluator ? configManager.describeTarget() : formatTargets(evaluator.getTargets()),
+                    analysis: this.aggregator.createAnalysis()
                 }
-            });
-        }
-        
-        if (analysis.safeFeatures.length > 0) {
-            suggestions.push(`\n✅ You're safely using ${analysis.safeFeatures.length} widely supported features.`);
+            };
+        };
+
+        for (const folder of folders) {
+            // Each root of a multi-root workspace may declare its own targets
+            const folderEvaluator = folders.length > 1
+                ? createEvaluator(loadBrowserslistConfig(folder.uri.fsPath), sharedEvaluator)
+                : sharedEvaluator;
+
+            const candidates = await vscode.workspace.findFiles(
+                new vscode.RelativePattern(folder, `**/{package.json,${BROWSERSLIST_FILES.join(',')}}`),
+                '**/node_modules/**'
+            );
+            const packages = detectWorkspacePackages(folder.uri.fsPath, candidates.map(uri => path.dirname(uri.fsPath)));
+            scopes.push(...packages.map(pkg => createScope(folder, folderEvaluator, pkg)));
+
+            // Files outside any package count as the folder's own
+            if (packages.length > 0 || folders.length > 1) {
+                scopes.push(createScope(folder, folderEvaluator));
+            }
         }
-        
-        const coverage = (analysis.analyzedFiles / analysis.totalFiles) * 100;
-        suggestions.push(`\n📊 Analyzed ${analysis.analyzedFiles} of ${analysis.totalFiles} files (${coverage.toFixed(1)}% coverage)`);
-        
-        analysis.suggestions = suggestions;
+
+        return scopes;
     }
-    
-    private isCacheValid(analysis: ProjectAnalysis): boolean {
-        const age = Date.now() - analysis.timestamp.getTime();
-        return age < this.cacheTimeout;
+
+    private findScope(scopes: PackageScope[], uri: vscode.Uri): PackageScope | undefined {
+        const folder = vscode.workspace.getWorkspaceFolder(uri)?.uri.toString();
+        const inFolder = scopes.filter(scope => scope.folder.uri.toString() === folder);
+        const pkg = findPackage(inFolder.flatMap(scope => scope.pkg ? [scope.pkg] : []), uri.fsPath);
+        return inFolder.find(scope => scope.pkg === pkg);
     }
-    
-    private scheduleCacheCleanup(cacheKey: string): void {
-        setTimeout(() => {
-            this.analysisCache.delete(cacheKey);
-        }, this.cacheTimeout);
+
+    private addFile(file: IndexedFile, analysis: ProjectAnalysis): void {
+        // Includes the folder name in multi-root workspaces
+        const workspacePath = vscode.workspace.asRelativePath(file.uri);
+        const policy = ConfigurationManager.getInstance().getPolicy();
+        const relativePath = policy ? policy.relativePath(file.uri.fsPath) : workspacePath;
+        this.aggregator.addScan(analysis, file.scan, workspacePath, relativePath, file.uri.toString());
     }
-}
\ No newline at end of file
+}
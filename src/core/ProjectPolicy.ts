@@ -0,0 +1,219 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+import { BaselineTarget, BrowserTarget } from '../types';
+import { RiskTolerance, RISK_TOLERANCES } from './RiskPolicy';
+import { resolveBrowserslistQuery } from './BrowserslistResolver';
+
+/**
+ * Committed, per-workspace policy loaded from `.baselinerc.json` or the
+ * `baseline` key of package.json. Shared by the editor and the CLI so every
+ * teammate and every CI run sees the same warnings.
+ */
+
+export const POLICY_FILE_NAME = '.baselinerc.json';
+
+/**
+ * What to do with a detected feature:
+ * - `allow`  accept it, whatever its support
+ * - `ignore` drop it from diagnostics and analysis entirely
+ * - `error` | `warning` | `info` | `hint` always report it with that severity
+ */
+export type PolicyRuleAction = 'allow' | 'ignore' | 'error' | 'warning' | 'info' | 'hint';
+
+export const POLICY_RULE_ACTIONS: PolicyRuleAction[] = ['allow', 'ignore', 'error', 'warning', 'info', 'hint'];
+
+export interface PolicyOverride {
+    files: string[];
+    rules: Record<string, PolicyRuleAction>;
+}
+
+export interface ProjectPolicyConfig {
+    targets?: Record<string, string>;     // Browser -> minimum version
+    browserslist?: string | string[];
+    baseline?: number | string;           // 2023, "widely" or "widely:YYYY-MM-DD"
+    riskTolerance?: RiskTolerance;
+    rules?: Record<string, PolicyRuleAction>;
+    overrides?: PolicyOverride[];
+}
+
+export class PolicyError extends Error {
+    constructor(message: string, public readonly source: string) {
+        super(`${source}: ${message}`);
+        this.name = 'PolicyError';
+    }
+}
+
+export class ProjectPolicy {
+    private constructor(
+        public readonly config: ProjectPolicyConfig,
+        public readonly source: string,
+        public readonly root: string
+    ) {}
+
+    /**
+     * Load the policy for a project directory. Returns undefined when the
+     * project declares none and throws PolicyError when it is malformed.
+     */
+    public static load(root: string): ProjectPolicy | undefined {
+        const policyPath = path.join(root, POLICY_FILE_NAME);
+        if (fs.existsSync(policyPath)) {
+            return ProjectPolicy.fromJson(fs.readFileSync(policyPath, 'utf8'), policyPath, root);
+        }
+
+        const packagePath = path.join(root, 'package.json');
+        if (fs.existsSync(packagePath)) {
+            let manifest: any;
+            try {
+                manifest = JSON.parse(fs.readFileSync(packagePath, 'utf8'));
+            } catch (error) {
+                return undefined; // Broken package.json is not ours to report
+            }
+            if (manifest && typeof manifest.baseline === 'object') {
+                return new ProjectPolicy(ProjectPolicy.validate(manifest.baseline, `${packagePath}#baseline`), `${packagePath}#baseline`, root);
+            }
+        }
+
+        return undefined;
+    }
+
+    public static fromJson(json: string, source: string, root: string): ProjectPolicy {
+        let raw: unknown;
+        try {
+            raw = JSON.parse(json);
+        } catch (error) {
+            throw new PolicyError(`Invalid JSON (${error instanceof Error ? error.message : String(error)})`, source);
+        }
+        return new ProjectPolicy(ProjectPolicy.validate(raw, source), source, root);
+    }
+
+    private static validate(raw: unknown, source: string): ProjectPolicyConfig {
+        if (!isObject(raw)) {
+            throw new PolicyError('Policy must be a JSON object', source);
+        }
+
+        if (raw.riskTolerance !== undefined && !RISK_TOLERANCES.includes(raw.riskTolerance as RiskTolerance)) {
+            throw new PolicyError(`riskTolerance must be one of: ${RISK_TOLERANCES.join(', ')}`, source);
+        }
+
+        const baseline = raw.baseline;
+        if (baseline !== undefined && !((typeof baseline === 'number' || typeof baseline === 'string') && ProjectPolicy.parseBaseline(baseline))) {
+            throw new PolicyError('baseline must be a year, "widely" or "widely:YYYY-MM-DD"', source);
+        }
+
+        if (raw.targets !== undefined) {
+            if (!isObject(raw.targets)) {
+                throw new PolicyError('targets must be an object of browser versions', source);
+            }
+            Object.entries(raw.targets).forEach(([browser, version]) => {
+                if (!(typeof version === 'number' || typeof version === 'string') || !/^\d+(?:\.\d+)*$/.test(String(version))) {
+                    throw new PolicyError(`targets.${browser} must be a version such as "109" or "16.4"`, source);
+                }
+            });
+        }
+
+        if (raw.browserslist !== undefined) {
+            const query = raw.browserslist;
+            if (typeof query !== 'string' && !(Array.isArray(query) && query.every(entry => typeof entry === 'string'))) {
+                throw new PolicyError('browserslist must be a query or an array of queries', source);
+            }
+            try {
+                resolveBrowserslistQuery(query);
+            } catch (error) {
+                throw new PolicyError(`browserslist is not a valid query (${error instanceof Error ? error.message : String(error)})`, source);
+            }
+        }
+
+        const checkRules = (rules: unknown, where: string) => {
+            if (rules === undefined) {
+                return;
+            }
+            if (!isObject(rules)) {
+                throw new PolicyError(`${where} must be an object`, source);
+            }
+            Object.entries(rules).forEach(([featureId, action]) => {
+                if (!POLICY_RULE_ACTIONS.includes(action as PolicyRuleAction)) {
+                    throw new PolicyError(`${where}.${featureId} must be one of: ${POLICY_RULE_ACTIONS.join(', ')}`, source);
+                }
+            });
+        };
+
+        checkRules(raw.rules, 'rules');
+
+        if (raw.overrides !== undefined) {
+            if (!Array.isArray(raw.overrides)) {
+                throw new PolicyError('overrides must be an array', source);
+            }
+            raw.overrides.forEach((override: unknown, i: number) => {
+                if (!isObject(override) || !Array.isArray(override.files) || override.files.some((f: unknown) => typeof f !== 'string')) {
+                    throw new PolicyError(`overrides[${i}].files must be an array of globs`, source);
+                }
+                checkRules(override.rules, `overrides[${i}].rules`);
+            });
+        }
+
+        return raw as ProjectPolicyConfig;
+    }
+
+    private static parseBaseline(value: number | string): BaselineTarget | undefined {
+        if (typeof value === 'number' || /^\d{4}$/.test(value)) {
+            return { kind: 'year', year: Number(value) };
+        }
+        const widely = /^widely(?::(\d{4}-\d{2}-\d{2}))?$/.exec(value);
+        return widely ? { kind: 'widely', asOf: widely[1] } : undefined;
+    }
+
+    public getBrowserTargets(): BrowserTarget[] | undefined {
+        if (!this.config.targets) {
+            return undefined;
+        }
+        return Object.entries(this.config.targets).map(([browser, version]) => ({ browser, version: String(version) }));
+    }
+
+    public getBaselineTarget(): BaselineTarget | undefined {
+        return this.config.baseline !== undefined ? ProjectPolicy.parseBaseline(this.config.baseline) : undefined;
+    }
+
+    /**
+     * Rule for a feature in a file. `featureIds` lists every ID the match is
+     * known by (web-features ID, pattern ID, aliases); `relativePath` is the
+     * file path relative to the policy root, using forward slashes.
+     * Later overrides win over earlier ones, which win over top-level rules.
+     */
+    public getRule(featureIds: string[], relativePath?: string): PolicyRuleAction | undefined {
+        const lookup = (rules: Record<string, PolicyRuleAction> | undefined) => {
+            if (!rules) {
+                return undefined;
+            }
+            for (const id of featureIds) {
+                if (rules[id]) {
+                    return rules[id];
+                }
+            }
+            return undefined;
+        };
+
+        let action = lookup(this.config.rules);
+
+        if (relativePath && this.config.overrides) {
+            for (const override of this.config.overrides) {
+                if (override.files.some(glob => minimatch(relativePath, glob, { dot: true, matchBase: !glob.includes('/') }))) {
+                    action = lookup(override.rules) || action;
+                }
+            }
+        }
+
+        return action;
+    }
+
+    /**
+     * Path of a file relative to the policy root, as used by override globs
+     */
+    public relativePath(filePath: string): string {
+        return path.relative(this.root, filePath).split(path.sep).join('/');
+    }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,30 @@
+/**
+ * Risk tolerance rules shared by the editor integration and the CLI.
+ * Kept free of any `vscode` dependency so it can run headless.
+ */
+
+import { CompatibilityReport } from '../types';
+import { getBaselineStatus } from './CompatibilityEvaluator';
+
+export type RiskTolerance = 'strict' | 'moderate' | 'permissive';
+
+export const RISK_TOLERANCES: RiskTolerance[] = ['strict', 'moderate', 'permissive'];
+
+/**
+ * Whether a target-aware compatibility report should be flagged under the
+ * given risk tolerance. Features every target supports are only flagged by
+ * `strict`, and only while they are newly available or below Baseline.
+ */
+export function shouldWarnForReport(report: CompatibilityReport, tolerance: RiskTolerance): boolean {
+    switch (report.compatibility) {
+        case 'full': {
+            const status = getBaselineStatus(report.feature);
+            return tolerance === 'strict' && (status === 'newly' || status === 'limited');
+        }
+        case 'none':
+            return true;
+        default:
+            // Some targets are missing: only permissive accepts that
+            return tolerance !== 'permissive';
+    }
+}
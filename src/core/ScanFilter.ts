@@ -0,0 +1,103 @@
+import { minimatch } from 'minimatch';
+import ignore from 'ignore';
+
+export type ExclusionSource = 'include' | 'exclude' | 'files.exclude' | '.gitignore';
+
+/**
+ * The rule that kept a file out of project analysis
+ */
+export interface ExclusionRule {
+    source: ExclusionSource;
+    pattern: string;                      // Glob, or `<dir>/.gitignore: <pattern>` for ignore files
+}
+
+export interface ExclusionCount extends ExclusionRule {
+    count: number;
+}
+
+export interface ScanFilterOptions {
+    include?: string[];                   // When set, only matching files are scanned
+    exclude?: string[];
+    filesExclude?: string[];              // VS Code `files.exclude` globs that are switched on
+    gitignores?: Array<{
+        directory: string;                // Relative to the root, '' for the root itself
+        content: string;
+    }>;
+}
+
+/**
+ * Decides which files of a workspace folder project analysis scans.
+ * Paths are relative to the folder, with forward slashes. Globs follow
+ * VS Code semantics: a glob that matches a folder excludes its contents.
+ */
+export class ScanFilter {
+    private gitignores: Array<{ directory: string; matcher: ReturnType<typeof ignore> }>;
+
+    constructor(private options: ScanFilterOptions = {}) {
+        // Deepest first: nested ignore files override their parents
+        this.gitignores = (options.gitignores || [])
+            .map(({ directory, content }) => ({ directory, matcher: ignore().add(content) }))
+            .sort((a, b) => b.directory.length - a.directory.length);
+    }
+
+    /**
+     * The rule excluding a file, or undefined when it is scanned
+     */
+    public match(relativePath: string): ExclusionRule | undefined {
+        const include = this.options.include || [];
+        if (include.length > 0 && !include.some(glob => minimatch(relativePath, glob, { dot: true }))) {
+            return { source: 'include', pattern: include.join(', ') };
+        }
+
+        const exclude = this.findGlob(relativePath, this.options.exclude);
+        if (exclude) {
+            return { source: 'exclude', pattern: exclude };
+        }
+
+        const filesExclude = this.findGlob(relativePath, this.options.filesExclude);
+        if (filesExclude) {
+            return { source: 'files.exclude', pattern: filesExclude };
+        }
+
+        for (const { directory, matcher } of this.gitignores) {
+            if (directory && !relativePath.startsWith(`${directory}/`)) {
+                continue;
+            }
+
+            const result = matcher.test(directory ? relativePath.slice(directory.length + 1) : relativePath);
+            if (result.unignored) {
+                return undefined;
+            }
+            if (result.ignored) {
+                const file = directory ? `${directory}/.gitignore` : '.gitignore';
+                return { source: '.gitignore', pattern: `${file}: ${result.rule?.pattern}` };
+            }
+        }
+
+        return undefined;
+    }
+
+    private findGlob(relativePath: string, globs: string[] = []): string | undefined {
+        // The file itself and every folder above it
+        const segments = relativePath.split('/');
+        const candidates = segments.map((_, i) => segments.slice(0, i + 1).join('/'));
+
+        return globs.find(glob => candidates.some(candidate => minimatch(candidate, glob, { dot: true })));
+    }
+}
+
+/**
+ * Total excluded files per rule, most files first
+ */
+export function countExclusions(rules: Iterable<ExclusionRule>): ExclusionCount[] {
+    const counts = new Map<string, ExclusionCount>();
+
+    for (const rule of rules) {
+        const key = `${rule.source}\0${rule.pattern}`;
+        const entry = counts.get(key) || { ...rule, count: 0 };
+        entry.count++;
+        counts.set(key, entry);
+    }
+
+    return Array.from(counts.values()).sort((a, b) => b.count - a.count);
+}
@@ -0,0 +1,30 @@
+import * as path from 'path';
+
+// File types analyzed by the extension and the CLI, keyed to VS Code language IDs
+const EXTENSION_LANGUAGES: Record<string, string> = {
+    '.css': 'css',
+    '.scss': 'scss',
+    '.less': 'less',
+    '.sass': 'sass',
+    '.js': 'javascript',
+    '.jsx': 'javascriptreact',
+    '.ts': 'typescript',
+    '.tsx': 'typescriptreact',
+    '.html': 'html',
+    '.vue': 'vue',
+    '.svelte': 'svelte'
+};
+
+/**
+ * Language IDs of every analyzable file, for editor providers
+ */
+export const SOURCE_LANGUAGE_IDS = Array.from(new Set(Object.values(EXTENSION_LANGUAGES)));
+
+/**
+ * Glob matching every analyzable file
+ */
+export const SOURCE_FILE_GLOB = `**/*.{${Object.keys(EXTENSION_LANGUAGES).map(ext => ext.slice(1)).join(',')}}`;
+
+export function getLanguageId(filePath: string): string | undefined {
+    return EXTENSION_LANGUAGES[path.extname(filePath).toLowerCase()];
+}
@@ -0,0 +1,262 @@
+import { FeatureMatch, FeaturePatternRegistry } from './FeaturePatternRegistry';
+import { CssFeatureDetector, isDelim, Token, tokenize } from './detectors/CssFeatureDetector';
+import { extractEmbeddedRegions, HtmlFeatureDetector } from './detectors/HtmlFeatureDetector';
+
+/**
+ * Syntactic role of a token
+ */
+export type TokenContext = 'property' | 'value' | 'at-rule' | 'selector' | 'function' | 'identifier' | 'member' | 'element' | 'attribute';
+
+export interface ResolvedToken {
+    context: TokenContext;
+    name: string;                         // Token as written, e.g. `gap`, `@container`, `:has`
+    start: number;
+    end: number;
+    match?: FeatureMatch;                 // Detected usage under the token; undefined when there is no Baseline data
+}
+
+/**
+ * Where a name is being typed, for completions
+ */
+export interface CompletionSite {
+    context: TokenContext;
+    start: number;                        // Start of the partial name, after any `@`, `:` or `.`
+    property?: string;                    // Declaration property of a value
+}
+
+const SCRIPT_LANGUAGES = new Set(['javascript', 'typescript', 'javascriptreact', 'typescriptreact']);
+
+const MATCHER_CONTEXTS: Record<string, TokenContext> = {
+    'css-property': 'property',
+    'css-custom-properties': 'property',
+    'css-value': 'value',
+    'css-at-rule': 'at-rule',
+    'css-function': 'function',
+    'css-pseudo-class': 'selector',
+    'css-pseudo-element': 'selector',
+    'js-global': 'identifier',
+    'js-member': 'member',
+    'html-element': 'element',
+    'html-attribute': 'attribute'
+};
+
+// Without a detected feature only these name a feature; plain values and
+// script identifiers are mostly the author's own
+const FEATURE_CONTEXTS = new Set<TokenContext>(['property', 'at-rule', 'selector', 'function', 'element', 'attribute']);
+
+/**
+ * Resolve the token at `offset` to the feature it uses. Only a detected
+ * usage whose name is under the offset counts, so `red` inside
+ * `color-mix(in srgb, red, blue)` or a variable named `filter` resolve to
+ * nothing rather than to a feature that merely contains or resembles them.
+ * Undefined when the offset is on no token that could name a feature.
+ */
+export function resolveToken(registry: FeaturePatternRegistry, text: string, languageId: string, offset: number): ResolvedToken | undefined {
+    const match = registry.findMatches(text, languageId)
+        .map(candidate => ({ candidate, name: getNameRange(candidate) }))
+        .filter(({ name }) => name.start <= offset && offset < name.end)
+        .sort((a, b) => (a.name.end - a.name.start) - (b.name.end - b.name.start))[0];
+
+    if (match) {
+        const kind = match.candidate.matcher?.split(':')[0];
+        const context = (kind && MATCHER_CONTEXTS[kind]) || classifyToken(text, languageId, offset)?.context || 'identifier';
+        return {
+            context,
+            name: text.slice(match.name.start, match.name.end),
+            start: match.name.start,
+            end: match.name.end,
+            match: match.candidate
+        };
+    }
+
+    const token = classifyToken(text, languageId, offset);
+    return token && FEATURE_CONTEXTS.has(token.context) ? token : undefined;
+}
+
+// The part of a match naming the feature: `color-mix` of a whole function call,
+// `has` of `:has(> img)`. Matches found by regex have no name.
+function getNameRange(match: FeatureMatch): { start: number; end: number } {
+    const [kind, ...rest] = (match.matcher || '').split(':');
+    let name = rest[rest.length - 1];
+    if (kind === 'js-member' && name) {
+        // `Document.startViewTransition`
+        name = name.slice(name.lastIndexOf('.') + 1);
+    }
+    if (kind === 'html-attribute' && name) {
+        // `img[loading]`, `input[type=date]`
+        name = /\[([\w-]+)/.exec(name)?.[1] || name;
+    }
+
+    const index = name ? match.text.toLowerCase().indexOf(name.toLowerCase()) : -1;
+    if (index < 0) {
+        return { start: match.start, end: match.end };
+    }
+    // Keep the `@`, `:` or `.` in front of the name, as the editor's word does
+    let start = match.start + index;
+    while (start > match.start && /[@:.]/.test(match.text[start - match.start - 1])) {
+        start--;
+    }
+    return { start, end: match.start + index + name.length };
+}
+
+function classifyToken(text: string, languageId: string, offset: number): Omit<ResolvedToken, 'match'> | undefined {
+    if (CssFeatureDetector.supportsLanguage(languageId)) {
+        return classifyCssToken(text, languageId, offset);
+    }
+    if (HtmlFeatureDetector.supportsLanguage(languageId)) {
+        return classifyMarkupToken(text, offset);
+    }
+    return undefined;
+}
+
+function classifyCssToken(text: string, languageId: string, offset: number): Omit<ResolvedToken, 'match'> | undefined {
+    const tokens = tokenize(text, languageId !== 'css');
+    const index = tokens.findIndex(token => token.start <= offset && offset < token.end);
+    const token = tokens[index];
+    if (!token) {
+        return undefined;
+    }
+
+    const resolved = (context: TokenContext) => ({ context, name: token.value, start: token.start, end: token.end });
+    if (token.type === 'at-keyword') {
+        return resolved('at-rule');
+    }
+    if (token.type === 'function') {
+        return resolved('function');
+    }
+    if (token.type !== 'ident') {
+        return undefined;
+    }
+
+    // A statement ending in `{` is a selector or at-rule prelude; anything else is a declaration
+    const isBoundary = (candidate: Token) => isDelim(candidate, '{') || isDelim(candidate, '}') || isDelim(candidate, ';');
+    let first = index;
+    while (first > 0 && !isBoundary(tokens[first - 1])) {
+        first--;
+    }
+    let last = index;
+    while (last < tokens.length - 1 && !isBoundary(tokens[last + 1])) {
+        last++;
+    }
+
+    const previous = tokens[index - 1];
+    if (isDelim(tokens[last + 1], '{')) {
+        // Pseudo-classes and pseudo-elements are the only selector parts naming features
+        if (tokens[first].type === 'at-keyword' || !isDelim(previous, ':') || previous.end !== token.start) {
+            return undefined;
+        }
+        const double = isDelim(tokens[index - 2], ':') && tokens[index - 2].end === previous.start;
+        return { context: 'selector', name: (double ? '::' : ':') + token.value, start: previous.start - (double ? 1 : 0), end: token.end };
+    }
+
+    const colon = tokens.slice(first, last + 1).findIndex(candidate => isDelim(candidate, ':')) + first;
+    if (colon < first || index < colon) {
+        return resolved('property');
+    }
+    return resolved('value');
+}
+
+function classifyMarkupToken(text: string, offset: number): Omit<ResolvedToken, 'match'> | undefined {
+    const region = extractEmbeddedRegions(text).find(candidate => candidate.start <= offset && offset <= candidate.end);
+    if (region) {
+        if (!CssFeatureDetector.supportsLanguage(region.languageId)) {
+            return undefined;
+        }
+        // `style=""` declarations are wrapped in a rule, like the registry does
+        const source = region.declarations ? `*{${text.slice(region.start, region.end)}}` : text.slice(region.start, region.end);
+        const shift = region.start - (region.declarations ? 2 : 0);
+        const token = classifyCssToken(source, region.languageId, offset - shift);
+        return token && { ...token, start: token.start + shift, end: token.end + shift };
+    }
+
+    // Only tag names and attribute names, outside attribute values
+    const tagStart = text.lastIndexOf('<', offset);
+    if (tagStart < 0 || text.lastIndexOf('>', offset - 1) > tagStart) {
+        return undefined;
+    }
+    const tag = text.slice(tagStart, offset);
+    if ((tag.match(/"/g) || []).length % 2 === 1 || (tag.match(/'/g) || []).length % 2 === 1) {
+        return undefined;
+    }
+
+    let start = offset;
+    let end = offset;
+    while (start > 0 && /[\w-]/.test(text[start - 1])) {
+        start--;
+    }
+    while (end < text.length && /[\w-]/.test(text[end])) {
+        end++;
+    }
+    if (start === end) {
+        return undefined;
+    }
+
+    const isTagName = /^<\/?$/.test(text.slice(tagStart, start));
+    return { context: isTagName ? 'element' : 'attribute', name: text.slice(start, end), start, end };
+}
+
+/**
+ * The kind of name being typed at `offset` in a stylesheet or script, or in
+ * the `<style>` and `<script>` blocks and `style=""` attributes of markup:
+ * a property, a value of a known property, an at-rule, a pseudo-class or
+ * pseudo-element, a global or a member. Undefined anywhere else, e.g. in
+ * selectors, strings and comments of scripts, or markup itself.
+ */
+export function getCompletionSite(text: string, languageId: string, offset: number): CompletionSite | undefined {
+    if (HtmlFeatureDetector.supportsLanguage(languageId)) {
+        const region = extractEmbeddedRegions(text).find(candidate => candidate.start <= offset && offset <= candidate.end);
+        if (!region) {
+            return undefined;
+        }
+        // `style=""` declarations are wrapped in a rule, like the registry does
+        const source = region.declarations ? `*{${text.slice(region.start, region.end)}}` : text.slice(region.start, region.end);
+        const shift = region.start - (region.declarations ? 2 : 0);
+        const site = getCompletionSite(source, region.languageId, offset - shift);
+        return site && { ...site, start: site.start + shift };
+    }
+
+    const before = text.slice(0, offset);
+
+    if (SCRIPT_LANGUAGES.has(languageId)) {
+        const start = offset - /[\w$]*$/.exec(before)![0].length;
+        const line = before.slice(before.lastIndexOf('\n') + 1, start);
+        // Rough: a line comment or an odd number of quotes before the name on its line
+        const inString = (line.match(/['"`]/g) || []).length % 2 === 1;
+        if (/^\d/.test(text.slice(start, offset)) || line.includes('//') || inString) {
+            return undefined;
+        }
+        return { context: text[start - 1] === '.' ? 'member' : 'identifier', start };
+    }
+
+    if (!CssFeatureDetector.supportsLanguage(languageId)) {
+        return undefined;
+    }
+    const start = offset - /[\w-]*$/.exec(before)![0].length;
+    if (text[start - 1] === '@') {
+        return { context: 'at-rule', start };
+    }
+
+    // The statement typed so far, since the last block or declaration boundary
+    const boundary = Math.max(before.lastIndexOf('{', start - 1), before.lastIndexOf('}', start - 1), before.lastIndexOf(';', start - 1));
+    const statement = text.slice(boundary + 1, start);
+    const depth = (before.match(/{/g) || []).length - (before.match(/}/g) || []).length;
+
+    if (text[start - 1] === ':') {
+        // `color:red` and `a:hover` look alike; only a property name inside a block starts a declaration
+        const head = statement.replace(/:+$/, '').trim();
+        if (text[start - 2] !== ':' && depth > 0 && /^[\w-]+$/.test(head)) {
+            return { context: 'value', start, property: head.toLowerCase() };
+        }
+        return { context: 'selector', start };
+    }
+    if (depth <= 0) {
+        return undefined;
+    }
+
+    const colon = statement.indexOf(':');
+    if (colon < 0) {
+        return statement.trim() === '' ? { context: 'property', start } : undefined;
+    }
+    const property = statement.slice(0, colon).trim();
+    return /^[\w-]+$/.test(property) ? { context: 'value', start, property: property.toLowerCase() } : undefined;
+}
@@ -0,0 +1,377 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { AnalysisAggregator, FileScan } from './AnalysisAggregator';
+import { ConfigurationManager } from './ConfigurationManager';
+import { countExclusions, ExclusionCount, ExclusionRule, ScanFilter } from './ScanFilter';
+import { getLanguageId, SOURCE_FILE_GLOB } from './SourceLanguages';
+import { ScanWorkerPool } from './workers/ScanWorkerPool';
+
+export interface IndexedFile {
+    uri: vscode.Uri;
+    scan: FileScan;
+}
+
+export interface IndexUpdateOptions {
+    token?: vscode.CancellationToken;                   // Stops the update; files indexed so far are kept
+    onFile?: (file: IndexedFile) => void;               // Each file as soon as its scan is available
+    onProgress?: (done: number, total: number) => void;
+}
+
+interface FileEntry {
+    hash: string;                         // Content hash, key into the scans
+    mtime: number;
+    size: number;
+}
+
+interface StoredIndex {
+    version: string;
+    files: Record<string, FileEntry>;
+    scans: Record<string, FileScan>;
+}
+
+const INDEX_FILE = 'feature-index.json';
+const EXCLUDE_GLOB = '**/node_modules/**';
+
+// Files in flight at once: enough to keep the workers and file reads busy
+const CONCURRENCY = 16;
+
+/**
+ * Persistent per-file feature index for project analysis.
+ *
+ * Scans are stored by content hash in the extension's workspace storage,
+ * so unchanged files are never re-analyzed, not even across sessions.
+ * File-system watchers keep the file list and the entries current; a file
+ * is only checked against the disk again after a watcher reports a change.
+ * The include/exclude settings, `files.exclude` and `.gitignore` decide
+ * which files are listed.
+ */
+export class WorkspaceIndex implements vscode.Disposable {
+    private files = new Map<string, FileEntry>();           // uri -> entry
+    private scans = new Map<string, FileScan>();            // content hash -> scan
+    private fresh = new Set<string>();                      // Uris verified since the last watcher event
+    private workspaceFiles: Set<string> | undefined;        // Known source files, undefined until listed
+    private excludedFiles = new Map<string, ExclusionRule>();
+    private filters = new Map<string, ScanFilter>();        // Workspace folder uri -> filter
+    private loaded: Promise<void> | undefined;
+    private running: Promise<void> | undefined;
+    private dirty = false;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private aggregator: AnalysisAggregator,
+        private storageUri: vscode.Uri | undefined,
+        private version: string,
+        private pool?: ScanWorkerPool
+    ) {
+        const watcher = vscode.workspace.createFileSystemWatcher(SOURCE_FILE_GLOB);
+        const gitignoreWatcher = vscode.workspace.createFileSystemWatcher('**/.gitignore');
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(uri => {
+                if (this.workspaceFiles && !this.isExcluded(uri)) {
+                    this.classify(uri, this.workspaceFiles);
+                }
+                this.fresh.delete(uri.toString());
+            }),
+            watcher.onDidChange(uri => this.fresh.delete(uri.toString())),
+            watcher.onDidDelete(uri => this.remove(uri)),
+            gitignoreWatcher,
+            gitignoreWatcher.onDidCreate(() => this.invalidateListing()),
+            gitignoreWatcher.onDidChange(() => this.invalidateListing()),
+            gitignoreWatcher.onDidDelete(() => this.invalidateListing()),
+            ConfigurationManager.getInstance().onDidChange(() => this.invalidateListing()),
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('files.exclude')) {
+                    this.invalidateListing();
+                }
+            }),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.invalidateListing())
+        );
+    }
+
+    /**
+     * Bring the index up to date and return the scans of all workspace
+     * source files. Only new and changed files are read and analyzed.
+     * Updates run one at a time; a cancelled update returns the files
+     * indexed so far.
+     */
+    public update(options: IndexUpdateOptions = {}): Promise<IndexedFile[]> {
+        return this.enqueue(() => this.runUpdate(options));
+    }
+
+    /**
+     * Re-index one file after it changed on disk. Undefined when the file
+     * is gone or not part of project analysis.
+     */
+    public updateFile(uri: vscode.Uri): Promise<IndexedFile | undefined> {
+        return this.enqueue(() => this.runFileUpdate(uri));
+    }
+
+    /**
+     * Files left out of the last listing, per rule
+     */
+    public getExclusions(): ExclusionCount[] {
+        return countExclusions(this.excludedFiles.values());
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const result = (this.running || Promise.resolve()).then(task);
+        this.running = result.then(() => undefined, () => undefined);
+        return result;
+    }
+
+    private async runUpdate({ token, onFile, onProgress }: IndexUpdateOptions): Promise<IndexedFile[]> {
+        await this.load();
+
+        const workspaceFiles = this.workspaceFiles || await this.listFiles(token);
+        if (token?.isCancellationRequested) {
+            return [];
+        }
+
+        const keys = Array.from(workspaceFiles);
+        const indexed: IndexedFile[] = [];
+        let next = 0;
+        let done = 0;
+
+        const work = async () => {
+            while (next < keys.length && !token?.isCancellationRequested) {
+                const uri = vscode.Uri.parse(keys[next++]);
+                try {
+                    const file = { uri, scan: await this.refresh(uri) };
+                    indexed.push(file);
+                    onFile?.(file);
+                } catch (error) {
+                    // Unreadable or vanished since listing; a watcher event will follow
+                }
+                onProgress?.(++done, keys.length);
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(CONCURRENCY, keys.length) }, work));
+
+        // Forget files that disappeared while the index was not watching
+        if (!token?.isCancellationRequested) {
+            for (const key of this.files.keys()) {
+                if (!workspaceFiles.has(key)) {
+                    this.files.delete(key);
+                    this.dirty = true;
+                }
+            }
+        }
+
+        await this.save();
+        return indexed;
+    }
+
+    private async runFileUpdate(uri: vscode.Uri): Promise<IndexedFile | undefined> {
+        await this.load();
+
+        // The watcher event that lists a new file may not have arrived yet
+        const key = uri.toString();
+        const workspaceFiles = this.workspaceFiles || await this.listFiles();
+        if (!workspaceFiles.has(key) && !this.excludedFiles.has(key) && !this.isExcluded(uri)) {
+            this.classify(uri, workspaceFiles);
+        }
+        if (!workspaceFiles.has(key)) {
+            return undefined;
+        }
+
+        // Saved with the next full update
+        this.fresh.delete(key);
+        try {
+            return { uri, scan: await this.refresh(uri) };
+        } catch (error) {
+            // Deleted before the watcher reported it
+            this.remove(uri);
+            return undefined;
+        }
+    }
+
+    private async listFiles(token?: vscode.CancellationToken): Promise<Set<string>> {
+        const workspaceFiles = new Set<string>();
+        this.excludedFiles.clear();
+        this.filters.clear();
+
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            this.filters.set(folder.uri.toString(), await this.createFilter(folder));
+
+            const uris = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, SOURCE_FILE_GLOB), EXCLUDE_GLOB, undefined, token);
+            uris.forEach(uri => this.classify(uri, workspaceFiles));
+        }
+
+        // A cancelled listing is incomplete; list again next time
+        if (!token?.isCancellationRequested) {
+            this.workspaceFiles = workspaceFiles;
+        }
+        return workspaceFiles;
+    }
+
+    private async createFilter(folder: vscode.WorkspaceFolder): Promise<ScanFilter> {
+        const config = ConfigurationManager.getInstance().getConfiguration();
+        const filesExclude = vscode.workspace.getConfiguration('files', folder.uri).get<Record<string, unknown>>('exclude', {});
+
+        const gitignores: Array<{ directory: string; content: string }> = [];
+        if (config.useGitignore) {
+            const uris = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, '**/.gitignore'), EXCLUDE_GLOB);
+            for (const uri of uris) {
+                try {
+                    const directory = path.posix.dirname(path.posix.relative(folder.uri.path, uri.path));
+                    const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+                    gitignores.push({ directory: directory === '.' ? '' : directory, content });
+                } catch (error) {
+                    // Unreadable ignore file: nothing to ignore
+                }
+            }
+        }
+
+        return new ScanFilter({
+            include: config.include,
+            exclude: config.exclude,
+            // `{ when: ... }` sibling conditions are not supported
+            filesExclude: Object.keys(filesExclude).filter(glob => filesExclude[glob] === true),
+            gitignores
+        });
+    }
+
+    private classify(uri: vscode.Uri, workspaceFiles: Set<string>): void {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        const filter = folder && this.filters.get(folder.uri.toString());
+        if (!folder || !filter) {
+            return;
+        }
+
+        const rule = filter.match(path.posix.relative(folder.uri.path, uri.path));
+        if (rule) {
+            this.excludedFiles.set(uri.toString(), rule);
+        } else {
+            workspaceFiles.add(uri.toString());
+        }
+    }
+
+    private invalidateListing(): void {
+        this.workspaceFiles = undefined;
+    }
+
+    private async refresh(uri: vscode.Uri): Promise<FileScan> {
+        const key = uri.toString();
+        const entry = this.files.get(key);
+        const cached = entry && this.scans.get(entry.hash);
+        if (cached && this.fresh.has(key)) {
+            return cached;
+        }
+
+        const stat = await vscode.workspace.fs.stat(uri);
+        if (cached && entry.mtime === stat.mtime && entry.size === stat.size) {
+            this.fresh.add(key);
+            return cached;
+        }
+
+        const languageId = getLanguageId(uri.path) || 'plaintext';
+        const content = await vscode.workspace.fs.readFile(uri);
+        const hash = createHash('sha1').update(languageId).update(content).digest('hex');
+
+        let scan = this.scans.get(hash);
+        if (!scan) {
+            const text = new TextDecoder().decode(content);
+            const matches = this.pool ? await this.pool.findMatches(text, languageId) : undefined;
+            scan = this.aggregator.scanDocument(text, languageId, matches);
+            this.scans.set(hash, scan);
+        }
+
+        this.files.set(key, { hash, mtime: stat.mtime, size: stat.size });
+        this.fresh.add(key);
+        this.dirty = true;
+        return scan;
+    }
+
+    private remove(uri: vscode.Uri): void {
+        // A deleted folder only reports itself
+        const key = uri.toString();
+        const isAffected = (candidate: string) => candidate === key || candidate.startsWith(`${key}/`);
+
+        for (const candidate of Array.from(this.workspaceFiles || [])) {
+            if (isAffected(candidate)) {
+                this.workspaceFiles!.delete(candidate);
+            }
+        }
+        for (const candidate of Array.from(this.excludedFiles.keys())) {
+            if (isAffected(candidate)) {
+                this.excludedFiles.delete(candidate);
+            }
+        }
+        for (const candidate of Array.from(this.files.keys())) {
+            if (isAffected(candidate)) {
+                this.files.delete(candidate);
+                this.fresh.delete(candidate);
+                this.dirty = true;
+            }
+        }
+    }
+
+    private isExcluded(uri: vscode.Uri): boolean {
+        return uri.path.includes('/node_modules/');
+    }
+
+    private load(): Promise<void> {
+        if (!this.loaded) {
+            this.loaded = this.readStore();
+        }
+        return this.loaded;
+    }
+
+    private async readStore(): Promise<void> {
+        if (!this.storageUri) {
+            return;
+        }
+
+        try {
+            const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(this.storageUri, INDEX_FILE));
+            const stored: StoredIndex = JSON.parse(new TextDecoder().decode(content));
+
+            // Scans from another extension version may use other patterns
+            if (stored.version !== this.version) {
+                return;
+            }
+
+            this.files = new Map(Object.entries(stored.files));
+            this.scans = new Map(Object.entries(stored.scans));
+        } catch (error) {
+            // No index yet, or unreadable: start from scratch
+        }
+    }
+
+    private async save(): Promise<void> {
+        if (!this.storageUri || !this.dirty) {
+            return;
+        }
+
+        // Drop scans no file refers to anymore
+        const used = new Set(Array.from(this.files.values(), entry => entry.hash));
+        for (const hash of Array.from(this.scans.keys())) {
+            if (!used.has(hash)) {
+                this.scans.delete(hash);
+            }
+        }
+
+        const stored: StoredIndex = {
+            version: this.version,
+            files: Object.fromEntries(this.files),
+            scans: Object.fromEntries(this.scans)
+        };
+
+        try {
+            await vscode.workspace.fs.createDirectory(this.storageUri);
+            await vscode.workspace.fs.writeFile(
+                vscode.Uri.joinPath(this.storageUri, INDEX_FILE),
+                new TextEncoder().encode(JSON.stringify(stored))
+            );
+            this.dirty = false;
+        } catch (error) {
+            // Keep the in-memory index; the next update retries
+        }
+    }
+}
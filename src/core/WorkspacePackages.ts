@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+
+export interface WorkspacePackage {
+    name: string;                         // package.json name, or the folder path
+    directory: string;                    // Absolute
+    relativePath: string;                 // Relative to the workspace root, with forward slashes
+    browserslist?: string[];              // Queries declared in the package folder itself
+}
+
+export const BROWSERSLIST_FILES = ['.browserslistrc', 'browserslist'];
+
+/**
+ * Detect the packages of a monorepo: folders matched by npm/yarn
+ * `workspaces` or pnpm-workspace.yaml, and folders that declare their own
+ * browserslist config. `candidates` are the directories below `root` that
+ * contain a package.json or browserslist file.
+ */
+export function detectWorkspacePackages(root: string, candidates: string[]): WorkspacePackage[] {
+    const globs = readWorkspaceGlobs(root);
+    const include = globs.filter(glob => !glob.startsWith('!'));
+    const exclude = globs.filter(glob => glob.startsWith('!')).map(glob => glob.slice(1));
+    const packages: WorkspacePackage[] = [];
+
+    for (const directory of new Set(candidates.map(candidate => path.resolve(root, candidate)))) {
+        const relativePath = path.relative(root, directory).split(path.sep).join('/');
+        if (!relativePath || relativePath.startsWith('..')) {
+            continue;
+        }
+
+        const manifest = readJson(path.join(directory, 'package.json'));
+        const isWorkspace = !!manifest &&
+            include.some(glob => minimatch(relativePath, normalizeGlob(glob))) &&
+            !exclude.some(glob => minimatch(relativePath, normalizeGlob(glob)));
+        const browserslist = readOwnBrowserslist(directory, manifest);
+
+        if (isWorkspace || browserslist) {
+            packages.push({
+                name: typeof manifest?.name === 'string' ? manifest.name : relativePath,
+                directory,
+                relativePath,
+                browserslist
+            });
+        }
+    }
+
+    return packages.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+}
+
+/**
+ * The package a file belongs to: the deepest one containing it
+ */
+export function findPackage(packages: WorkspacePackage[], filePath: string): WorkspacePackage | undefined {
+    let found: WorkspacePackage | undefined;
+    for (const pkg of packages) {
+        if (filePath.startsWith(pkg.directory + path.sep) && (!found || pkg.directory.length > found.directory.length)) {
+            found = pkg;
+        }
+    }
+    return found;
+}
+
+function readWorkspaceGlobs(root: string): string[] {
+    const globs: string[] = [];
+
+    // npm and yarn: `"workspaces": [...]` or `"workspaces": { "packages": [...] }`
+    const workspaces = readJson(path.join(root, 'package.json'))?.workspaces;
+    const declared = Array.isArray(workspaces) ? workspaces : workspaces?.packages;
+    if (Array.isArray(declared)) {
+        globs.push(...declared.filter((glob: unknown): glob is string => typeof glob === 'string'));
+    }
+
+    // pnpm: the `packages:` list of pnpm-workspace.yaml
+    try {
+        const yaml = fs.readFileSync(path.join(root, 'pnpm-workspace.yaml'), 'utf8');
+        let inPackages = false;
+        for (const line of yaml.split(/\r?\n/)) {
+            if (/^\S/.test(line)) {
+                inPackages = /^packages\s*:/.test(line);
+                continue;
+            }
+            const item = inPackages && /^\s+-\s*(['"]?)(.+?)\1\s*(?:#.*)?$/.exec(line);
+            if (item) {
+                globs.push(item[2]);
+            }
+        }
+    } catch (error) {
+        // Not a pnpm workspace
+    }
+
+    return globs;
+}
+
+function readOwnBrowserslist(directory: string, manifest: any): string[] | undefined {
+    if (typeof manifest?.browserslist === 'string') {
+        return [manifest.browserslist];
+    }
+    if (Array.isArray(manifest?.browserslist)) {
+        return manifest.browserslist;
+    }
+
+    for (const file of BROWSERSLIST_FILES) {
+        let content: string;
+        try {
+            content = fs.readFileSync(path.join(directory, file), 'utf8');
+        } catch (error) {
+            continue;
+        }
+
+        // Queries before the first `[environment]` section apply by default
+        const queries: string[] = [];
+        for (const line of content.split(/\r?\n/).map(line => line.replace(/#.*/, '').trim())) {
+            if (line.startsWith('[')) {
+                break;
+            }
+            if (line) {
+                queries.push(line);
+            }
+        }
+        if (queries.length > 0) {
+            return queries;
+        }
+    }
+
+    return undefined;
+}
+
+function normalizeGlob(glob: string): string {
+    return glob.replace(/^\.\//, '').replace(/\/+$/, '');
+}
+
+function readJson(file: string): any {
+    try {
+        return JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+        return undefined;
+    }
+}
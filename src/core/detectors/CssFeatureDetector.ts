@@ -0,0 +1,424 @@
+import { FeatureMatch } from '../FeaturePatternRegistry';
+
+/**
+ * Structured description of how a feature shows up in a stylesheet.
+ * Names are matched case-insensitively and without vendor prefixes.
+ */
+export interface CssFeatureMatcher {
+    properties?: string[];                // Declared properties, e.g. 'aspect-ratio'
+    values?: Array<{                      // Keywords in the value of given properties, e.g. display: grid
+        properties: string[];
+        keywords: string[];
+    }>;
+    functions?: string[];                 // Value functions, e.g. 'clamp'
+    atRules?: string[];                   // At-rules without '@', e.g. 'container'
+    pseudoClasses?: string[];             // Pseudo-classes without ':', e.g. 'has', 'focus-visible'
+    pseudoElements?: string[];            // Pseudo-elements without '::', e.g. 'backdrop'
+    customProperties?: boolean;           // `--name: value` declarations
+    nesting?: boolean;                    // Style rules nested in style rules (plain CSS only)
+}
+
+export type TokenType = 'ident' | 'function' | 'at-keyword' | 'hash' | 'string' | 'url' | 'number' | 'interpolation' | 'delim';
+
+export interface Token {
+    type: TokenType;
+    value: string;
+    start: number;
+    end: number;
+}
+
+type BlockKind = 'root' | 'rule' | 'conditional' | 'keyframes' | 'at';
+
+// At-rules whose blocks contain rules, like the stylesheet itself
+const CONDITIONAL_AT_RULES = new Set(['media', 'supports', 'container', 'layer', 'scope', 'document', 'starting-style']);
+
+// Languages with `//` comments and preprocessor nesting
+const PREPROCESSOR_LANGUAGES = new Set(['scss', 'less']);
+
+/**
+ * Tokenizer-based detector for CSS, SCSS and Less. Unlike the regex patterns
+ * it ignores comments and strings and only matches real property names,
+ * values, functions, at-rules and selectors, with exact ranges.
+ */
+export class CssFeatureDetector {
+    private properties = new Map<string, string[]>();
+    private values = new Map<string, Map<string, string[]>>();      // property -> keyword -> ids
+    private functions = new Map<string, string[]>();
+    private atRules = new Map<string, string[]>();
+    private pseudoClasses = new Map<string, string[]>();
+    private pseudoElements = new Map<string, string[]>();
+    private customPropertyIds: string[] = [];
+    private nestingIds: string[] = [];
+
+    constructor(definitions: Array<{ id: string; css?: CssFeatureMatcher }>) {
+        const add = (map: Map<string, string[]>, key: string, id: string) => {
+            const ids = map.get(key) || [];
+            ids.push(id);
+            map.set(key, ids);
+        };
+
+        definitions.forEach(({ id, css }) => {
+            if (!css) {
+                return;
+            }
+            css.properties?.forEach(property => add(this.properties, property, id));
+            css.functions?.forEach(fn => add(this.functions, fn, id));
+            css.atRules?.forEach(atRule => add(this.atRules, atRule, id));
+            css.pseudoClasses?.forEach(pseudo => add(this.pseudoClasses, pseudo, id));
+            css.pseudoElements?.forEach(pseudo => add(this.pseudoElements, pseudo, id));
+            css.values?.forEach(({ properties, keywords }) => {
+                properties.forEach(property => {
+                    const keywordMap = this.values.get(property) || new Map<string, string[]>();
+                    keywords.forEach(keyword => add(keywordMap, keyword, id));
+                    this.values.set(property, keywordMap);
+                });
+            });
+            if (css.customProperties) {
+                this.customPropertyIds.push(id);
+            }
+            if (css.nesting) {
+                this.nestingIds.push(id);
+            }
+        });
+    }
+
+    public static supportsLanguage(languageId: string): boolean {
+        return languageId === 'css' || PREPROCESSOR_LANGUAGES.has(languageId);
+    }
+
+    public detect(text: string, languageId: string = 'css'): FeatureMatch[] {
+        const isPreprocessor = PREPROCESSOR_LANGUAGES.has(languageId);
+        const tokens = tokenize(text, isPreprocessor);
+        const matches: FeatureMatch[] = [];
+
+        const emit = (ids: string[] | undefined, start: number, end: number, matcher: string) => {
+            ids?.forEach(featureId => matches.push({ featureId, start, end, text: text.slice(start, end), matcher }));
+        };
+
+        // Offset after the `)` closing the function or parenthesis at tokens[index]
+        const closingEnd = (list: Token[], index: number): number => {
+            let depth = 0;
+            for (let i = index; i < list.length; i++) {
+                if (opens(list[i])) {
+                    depth++;
+                } else if (isDelim(list[i], ')')) {
+                    depth--;
+                    if (depth === 0) {
+                        return list[i].end;
+                    }
+                }
+            }
+            return list[index].end;
+        };
+
+        const scanValue = (list: Token[], property: string | undefined) => {
+            const keywords = property ? this.values.get(property) : undefined;
+            list.forEach((token, i) => {
+                const name = normalize(token.value);
+                if (token.type === 'function') {
+                    const end = closingEnd(list, i);
+                    emit(this.functions.get(name), token.start, end, `css-function:${name}`);
+                    // Property-specific functions, e.g. grid-template-columns: repeat()
+                    emit(keywords?.get(name), token.start, end, `css-value:${property}:${name}`);
+                } else if (token.type === 'ident' && keywords) {
+                    emit(keywords.get(name), token.start, token.end, `css-value:${property}:${name}`);
+                }
+            });
+        };
+
+        const scanSelector = (list: Token[]) => {
+            list.forEach((token, i) => {
+                const next = list[i + 1];
+                const previous = list[i - 1];
+                if (!isDelim(token, ':') || !next || (next.type !== 'function' && next.type !== 'ident') || next.start !== token.end) {
+                    return;
+                }
+                const name = normalize(next.value);
+                const end = next.type === 'function' ? closingEnd(list, i + 1) : next.end;
+                if (previous && isDelim(previous, ':') && previous.end === token.start) {
+                    emit(this.pseudoElements.get(name), previous.start, end, `css-pseudo-element:${name}`);
+                } else {
+                    emit(this.pseudoClasses.get(name), token.start, end, `css-pseudo-class:${name}`);
+                }
+            });
+        };
+
+        const scanDeclaration = (list: Token[], colon: number) => {
+            const name = list[0].value;
+            if (name.startsWith('--')) {
+                emit(this.customPropertyIds, list[0].start, list[0].end, 'css-custom-properties');
+                scanValue(list.slice(colon + 1), undefined);
+                return;
+            }
+
+            // Preprocessor variables only carry values
+            const property = name.startsWith('$') || name.startsWith('@') ? undefined : normalize(name);
+            if (property) {
+                emit(this.properties.get(property), list[0].start, list[0].end, `css-property:${property}`);
+            }
+            scanValue(list.slice(colon + 1), property);
+        };
+
+        // At-rule preludes: `(prop: value)` conditions, functions and selector()
+        const scanPrelude = (list: Token[]) => {
+            const conditions: Array<[number, number]> = [];
+            list.forEach((token, i) => {
+                if (isDelim(token, '(') && list[i + 1]?.type === 'ident' && isDelim(list[i + 2], ':')) {
+                    const property = normalize(list[i + 1].value);
+                    emit(this.properties.get(property), list[i + 1].start, list[i + 1].end, `css-property:${property}`);
+                    const groupEnd = closingEnd(list, i);
+                    conditions.push([token.start, groupEnd]);
+                    const keywords = this.values.get(property);
+                    list.slice(i + 3)
+                        .filter(t => t.end <= groupEnd && t.type === 'ident')
+                        .forEach(t => emit(keywords?.get(normalize(t.value)), t.start, t.end, `css-value:${property}:${normalize(t.value)}`));
+                }
+            });
+            list.filter(token => token.type === 'function' && !isConditionFunction(token))
+                .forEach(token => {
+                    const index = list.indexOf(token);
+                    const name = normalize(token.value);
+                    emit(this.functions.get(name), token.start, closingEnd(list, index), `css-function:${name}`);
+                });
+            // `(hover:hover)` is a condition, not a pseudo-class
+            scanSelector(list.filter(token => !conditions.some(([start, end]) => token.start >= start && token.end <= end)));
+        };
+
+        const stack: BlockKind[] = ['root'];
+        let prelude: Token[] = [];
+        let depth = 0;
+
+        const startBlock = () => {
+            const first = prelude[0];
+            if (!first) {
+                stack.push('at');
+                return;
+            }
+
+            if (first.type === 'at-keyword') {
+                const name = normalize(first.value.slice(1));
+                emit(this.atRules.get(name), first.start, first.end, `css-at-rule:${name}`);
+                scanPrelude(prelude.slice(1));
+                stack.push(CONDITIONAL_AT_RULES.has(name) ? 'conditional' : name === 'keyframes' ? 'keyframes' : 'at');
+                return;
+            }
+
+            if (stack[stack.length - 1] === 'keyframes') {
+                stack.push('rule');
+                return;
+            }
+
+            scanSelector(prelude);
+            if (!isPreprocessor && stack.includes('rule')) {
+                const ampersand = prelude.find(token => isDelim(token, '&'));
+                const anchor = ampersand || first;
+                emit(this.nestingIds, anchor.start, anchor.end, 'css-nesting');
+            }
+            stack.push('rule');
+        };
+
+        const endStatement = () => {
+            const first = prelude[0];
+            if (!first) {
+                return;
+            }
+
+            if (first.type === 'at-keyword') {
+                if (isDelim(prelude[1], ':')) {
+                    scanValue(prelude.slice(2), undefined); // Less variable
+                    return;
+                }
+                const name = normalize(first.value.slice(1));
+                emit(this.atRules.get(name), first.start, first.end, `css-at-rule:${name}`);
+                scanPrelude(prelude.slice(1));
+                return;
+            }
+
+            const colon = prelude.findIndex(token => isDelim(token, ':'));
+            if (first.type === 'ident' && colon === 1) {
+                scanDeclaration(prelude, colon);
+            }
+        };
+
+        for (const token of tokens) {
+            if (opens(token)) {
+                depth++;
+            } else if (isDelim(token, ')') || isDelim(token, ']')) {
+                depth = Math.max(0, depth - 1);
+            }
+
+            if (depth === 0 && isDelim(token, '{')) {
+                startBlock();
+                prelude = [];
+            } else if (depth === 0 && isDelim(token, ';')) {
+                endStatement();
+                prelude = [];
+            } else if (isDelim(token, '}')) {
+                endStatement();
+                prelude = [];
+                depth = 0;
+                if (stack.length > 1) {
+                    stack.pop();
+                }
+            } else {
+                prelude.push(token);
+            }
+        }
+        endStatement();
+
+        return matches;
+    }
+}
+
+function normalize(name: string): string {
+    return name.toLowerCase().replace(/^-(?:webkit|moz|ms|o)-/, '');
+}
+
+export function isDelim(token: Token | undefined, char: string): boolean {
+    return token !== undefined && token.type === 'delim' && token.value === char;
+}
+
+export function opens(token: Token): boolean {
+    return token.type === 'function' || isDelim(token, '(') || isDelim(token, '[');
+}
+
+// selector()/supports() wrap conditions rather than values
+function isConditionFunction(token: Token): boolean {
+    const name = token.value.toLowerCase();
+    return name === 'selector' || name === 'supports';
+}
+
+function isNameChar(char: string | undefined): boolean {
+    return char !== undefined && /[\w\-\u0080-\uffff\\]/.test(char);
+}
+
+function isNameStart(text: string, i: number, allowVariables: boolean): boolean {
+    const char = text[i];
+    if (/[a-zA-Z_\u0080-\uffff\\]/.test(char)) {
+        return true;
+    }
+    if (char === '-') {
+        return /[a-zA-Z_\-\u0080-\uffff\\]/.test(text[i + 1] || '');
+    }
+    return allowVariables && char === '$' && isNameChar(text[i + 1]);
+}
+
+/**
+ * Split a stylesheet into tokens, dropping whitespace and comments
+ */
+export function tokenize(text: string, isPreprocessor: boolean): Token[] {
+    const tokens: Token[] = [];
+    const length = text.length;
+    let i = 0;
+
+    const readName = (from: number) => {
+        let j = from;
+        while (j < length && isNameChar(text[j])) {
+            j += text[j] === '\\' ? 2 : 1;
+        }
+        return j;
+    };
+
+    // `#{...}` (SCSS) and `@{...}` (Less) interpolation
+    const readInterpolation = (from: number) => {
+        let depth = 0;
+        for (let j = from + 1; j < length; j++) {
+            if (text[j] === '{') {
+                depth++;
+            } else if (text[j] === '}') {
+                depth--;
+                if (depth === 0) {
+                    return j + 1;
+                }
+            }
+        }
+        return length;
+    };
+
+    while (i < length) {
+        const char = text[i];
+        const next = text[i + 1];
+        const start = i;
+
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        if (char === '/' && next === '*') {
+            const close = text.indexOf('*/', i + 2);
+            i = close === -1 ? length : close + 2;
+            continue;
+        }
+
+        if (isPreprocessor && char === '/' && next === '/') {
+            const newline = text.indexOf('\n', i);
+            i = newline === -1 ? length : newline;
+            continue;
+        }
+
+        if (char === '"' || char === '\'') {
+            i++;
+            while (i < length && text[i] !== char && text[i] !== '\n') {
+                i += text[i] === '\\' ? 2 : 1;
+            }
+            i = Math.min(i + 1, length);
+            tokens.push({ type: 'string', value: text.slice(start, i), start, end: i });
+            continue;
+        }
+
+        if ((char === '#' || char === '@') && next === '{' && isPreprocessor) {
+            i = readInterpolation(i);
+            tokens.push({ type: 'interpolation', value: text.slice(start, i), start, end: i });
+            continue;
+        }
+
+        if (char === '@' && isNameStart(text, i + 1, false)) {
+            i = readName(i + 1);
+            tokens.push({ type: 'at-keyword', value: text.slice(start, i), start, end: i });
+            continue;
+        }
+
+        if (char === '#' && isNameChar(next)) {
+            i = readName(i + 1);
+            tokens.push({ type: 'hash', value: text.slice(start, i), start, end: i });
+            continue;
+        }
+
+        if (isNameStart(text, i, isPreprocessor)) {
+            i = readName(char === '$' ? i + 1 : i);
+            const value = text.slice(start, i);
+
+            if (text[i] !== '(') {
+                tokens.push({ type: 'ident', value, start, end: i });
+                continue;
+            }
+
+            // Unquoted url(...) may contain anything, including `//`
+            if (value.toLowerCase() === 'url' && !/^\(\s*['"]/.test(text.slice(i, i + 64))) {
+                const close = text.indexOf(')', i);
+                i = close === -1 ? length : close + 1;
+                tokens.push({ type: 'url', value: text.slice(start, i), start, end: i });
+                continue;
+            }
+
+            tokens.push({ type: 'function', value, start, end: i + 1 });
+            i++;
+            continue;
+        }
+
+        if (/\d/.test(char) || (/[.+-]/.test(char) && /\d/.test(next || ''))) {
+            i++;
+            while (i < length && /[\d.%a-zA-Z]/.test(text[i])) {
+                i++;
+            }
+            tokens.push({ type: 'number', value: text.slice(start, i), start, end: i });
+            continue;
+        }
+
+        tokens.push({ type: 'delim', value: char, start, end: i + 1 });
+        i++;
+    }
+
+    return tokens;
+}
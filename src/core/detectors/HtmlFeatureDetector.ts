@@ -0,0 +1,290 @@
+import { FeatureMatch } from '../FeaturePatternRegistry';
+
+/**
+ * Structured description of how a feature shows up in markup.
+ * Names are matched case-insensitively.
+ */
+export interface HtmlFeatureMatcher {
+    elements?: string[];                  // Element names, e.g. 'dialog'
+    attributes?: string[];                // 'popover', 'loading=lazy' to require a value, 'img[loading]' or
+                                          // 'input[type=date]' for one element only
+}
+
+/**
+ * A stylesheet or script embedded in markup, in document offsets
+ */
+export interface EmbeddedRegion {
+    languageId: string;                   // 'css', 'scss', 'javascript', 'typescript', ...
+    start: number;
+    end: number;
+    declarations?: boolean;               // `style=""` attribute: declarations without a rule
+}
+
+interface Attribute {
+    name: string;
+    value?: string;
+    start: number;
+    end: number;
+    valueStart: number;
+}
+
+interface Tag {
+    name: string;
+    start: number;                        // Offset of `<`
+    nameEnd: number;
+    attributes: Attribute[];
+    topLevel: boolean;                    // Not nested in another element
+}
+
+// Elements whose content is not markup
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+// `<script type>` values that hold JavaScript
+const SCRIPT_TYPES = new Set(['', 'module', 'text/javascript', 'application/javascript', 'text/babel', 'text/typescript', 'text/ts']);
+
+const SCRIPT_LANGUAGES: Record<string, string> = {
+    'js': 'javascript',
+    'javascript': 'javascript',
+    'jsx': 'javascriptreact',
+    'ts': 'typescript',
+    'typescript': 'typescript',
+    'tsx': 'typescriptreact'
+};
+
+const STYLE_LANGUAGES = new Set(['css', 'scss', 'less', 'sass', 'stylus', 'postcss']);
+
+const MARKUP_LANGUAGES = new Set(['html', 'vue', 'svelte']);
+
+/**
+ * Tokenizer-based detector for HTML and the markup parts of Vue and Svelte
+ * components. Finds element and attribute features outside of comments,
+ * scripts and styles; use extractEmbeddedRegions for those.
+ */
+export class HtmlFeatureDetector {
+    private elements = new Map<string, string[]>();
+    private attributes = new Map<string, string[]>();     // attribute spec -> ids
+
+    constructor(definitions: Array<{ id: string; html?: HtmlFeatureMatcher }>) {
+        const add = (map: Map<string, string[]>, key: string, id: string) => {
+            const ids = map.get(key) || [];
+            ids.push(id);
+            map.set(key, ids);
+        };
+
+        definitions.forEach(({ id, html }) => {
+            html?.elements?.forEach(element => add(this.elements, element.toLowerCase(), id));
+            html?.attributes?.forEach(spec => add(this.attributes, spec.toLowerCase(), id));
+        });
+    }
+
+    public static supportsLanguage(languageId: string): boolean {
+        return MARKUP_LANGUAGES.has(languageId);
+    }
+
+    public detect(text: string, languageId: string = 'html'): FeatureMatch[] {
+        const matches: FeatureMatch[] = [];
+
+        const emit = (ids: string[] | undefined, start: number, end: number, matcher: string) => {
+            ids?.forEach(featureId => matches.push({ featureId, start, end, text: text.slice(start, end), matcher }));
+        };
+
+        scanMarkup(text).tags.forEach(tag => {
+            // Top-level <template> is the Vue component's markup block, not an HTML template
+            if (!(languageId === 'vue' && tag.topLevel && tag.name === 'template')) {
+                emit(this.elements.get(tag.name), tag.start, tag.nameEnd, `html-element:${tag.name}`);
+            }
+
+            tag.attributes.forEach(attribute => {
+                const value = attribute.value?.trim().toLowerCase();
+                const specs = [attribute.name, `${tag.name}[${attribute.name}]`];
+                if (value !== undefined) {
+                    specs.push(`${attribute.name}=${value}`, `${tag.name}[${attribute.name}=${value}]`);
+                }
+                specs.forEach(spec => emit(this.attributes.get(spec), attribute.start, attribute.end, `html-attribute:${spec}`));
+            });
+        });
+
+        return matches;
+    }
+}
+
+/**
+ * Find the stylesheets and scripts embedded in markup: `<style>` and
+ * `<script>` elements (including Vue and Svelte component blocks, with
+ * their `lang`) and `style=""` attributes.
+ */
+export function extractEmbeddedRegions(text: string): EmbeddedRegion[] {
+    return scanMarkup(text).regions;
+}
+
+function scanMarkup(text: string): { tags: Tag[]; regions: EmbeddedRegion[] } {
+    const tags: Tag[] = [];
+    const regions: EmbeddedRegion[] = [];
+    let depth = 0;
+    let i = 0;
+
+    while (i < text.length) {
+        const lt = text.indexOf('<', i);
+        if (lt === -1) {
+            break;
+        }
+
+        if (text.startsWith('<!--', lt)) {
+            const close = text.indexOf('-->', lt + 4);
+            i = close === -1 ? text.length : close + 3;
+            continue;
+        }
+        if (text[lt + 1] === '!' || text[lt + 1] === '?') {
+            const close = text.indexOf('>', lt);
+            i = close === -1 ? text.length : close + 1;
+            continue;
+        }
+
+        const closing = text[lt + 1] === '/';
+        const nameMatch = /^[a-zA-Z][\w:.-]*/.exec(text.slice(closing ? lt + 2 : lt + 1, lt + 80));
+        if (!nameMatch) {
+            i = lt + 1;
+            continue;
+        }
+
+        const name = nameMatch[0].toLowerCase();
+        const nameEnd = (closing ? lt + 2 : lt + 1) + nameMatch[0].length;
+
+        if (closing) {
+            const close = text.indexOf('>', nameEnd);
+            depth = Math.max(depth - 1, 0);
+            i = close === -1 ? text.length : close + 1;
+            continue;
+        }
+
+        const { attributes, end, selfClosing } = scanAttributes(text, nameEnd);
+        tags.push({ name, start: lt, nameEnd, attributes, topLevel: depth === 0 });
+
+        attributes
+            .filter(attribute => attribute.name === 'style' && attribute.value !== undefined)
+            .forEach(attribute => regions.push({
+                languageId: 'css',
+                start: attribute.valueStart,
+                end: attribute.valueStart + attribute.value!.length,
+                declarations: true
+            }));
+
+        i = end;
+        if (RAW_TEXT_ELEMENTS.has(name) && !selfClosing) {
+            const closeMatch = new RegExp(`</${name}\\s*>`, 'i').exec(text.slice(end));
+            const contentEnd = closeMatch ? end + closeMatch.index : text.length;
+            const languageId = getRegionLanguage(name, attributes);
+            if (languageId && contentEnd > end) {
+                regions.push({ languageId, start: end, end: contentEnd });
+            }
+            i = closeMatch ? contentEnd + closeMatch[0].length : text.length;
+        } else if (!selfClosing && !VOID_ELEMENTS.has(name)) {
+            depth++;
+        }
+    }
+
+    return { tags, regions };
+}
+
+function scanAttributes(text: string, from: number): { attributes: Attribute[]; end: number; selfClosing: boolean } {
+    const attributes: Attribute[] = [];
+    let i = from;
+
+    while (i < text.length) {
+        while (i < text.length && /\s/.test(text[i])) {
+            i++;
+        }
+        if (text[i] === '>') {
+            return { attributes, end: i + 1, selfClosing: false };
+        }
+        if (text.startsWith('/>', i)) {
+            return { attributes, end: i + 2, selfClosing: true };
+        }
+
+        const nameStart = i;
+        while (i < text.length && !/[\s"'>/=]/.test(text[i])) {
+            i++;
+        }
+        if (i === nameStart) {
+            i++; // Stray `/`, quote or `=`
+            continue;
+        }
+
+        const attribute: Attribute = { name: text.slice(nameStart, i).toLowerCase(), start: nameStart, end: i, valueStart: i };
+        let j = i;
+        while (j < text.length && /\s/.test(text[j])) {
+            j++;
+        }
+        if (text[j] === '=') {
+            j++;
+            while (j < text.length && /\s/.test(text[j])) {
+                j++;
+            }
+            const quote = text[j];
+            if (quote === '"' || quote === "'") {
+                const close = text.indexOf(quote, j + 1);
+                const valueEnd = close === -1 ? text.length : close;
+                attribute.valueStart = j + 1;
+                attribute.value = text.slice(j + 1, valueEnd);
+                i = Math.min(valueEnd + 1, text.length);
+            } else if (quote === '{') {
+                // Svelte expression: braces may contain `>`
+                const valueEnd = findBraceEnd(text, j);
+                attribute.valueStart = j;
+                attribute.value = text.slice(j, valueEnd);
+                i = valueEnd;
+            } else {
+                const valueStart = j;
+                while (j < text.length && !/[\s>]/.test(text[j])) {
+                    j++;
+                }
+                attribute.valueStart = valueStart;
+                attribute.value = text.slice(valueStart, j);
+                i = j;
+            }
+            attribute.end = i;
+        }
+
+        attributes.push(attribute);
+    }
+
+    return { attributes, end: text.length, selfClosing: false };
+}
+
+function findBraceEnd(text: string, open: number): number {
+    let depth = 0;
+    for (let i = open; i < text.length; i++) {
+        if (text[i] === '{') {
+            depth++;
+        } else if (text[i] === '}') {
+            depth--;
+            if (depth === 0) {
+                return i + 1;
+            }
+        }
+    }
+    return text.length;
+}
+
+// Language of a <style> or <script> body, or undefined for data blocks such as JSON
+function getRegionLanguage(element: string, attributes: Attribute[]): string | undefined {
+    const attribute = (name: string) => attributes.find(a => a.name === name)?.value?.trim().toLowerCase();
+    const lang = attribute('lang');
+
+    if (element === 'style') {
+        return lang && STYLE_LANGUAGES.has(lang) ? (lang === 'postcss' ? 'css' : lang) : lang ? undefined : 'css';
+    }
+    if (element === 'script') {
+        if (lang) {
+            return SCRIPT_LANGUAGES[lang];
+        }
+        const type = attribute('type') ?? '';
+        if (!SCRIPT_TYPES.has(type)) {
+            return undefined;
+        }
+        return type.endsWith('typescript') || type.endsWith('/ts') ? 'typescript' : 'javascript';
+    }
+    return undefined;
+}
@@ -0,0 +1,541 @@
+import * as ts from 'typescript';
+import { FeatureMatch } from '../FeaturePatternRegistry';
+
+/**
+ * Language constructs recognized from the syntax tree
+ */
+export type JsSyntaxFeature =
+    | 'optional-chaining'                 // a?.b, a?.(), a?.[0]
+    | 'nullish-coalescing'                // a ?? b, a ??= b
+    | 'destructuring'                     // const { a } = b, [a, b] = c
+    | 'spread'                            // ...args, { ...rest }
+    | 'async-await'                       // async functions, await, for await
+    | 'modules';                          // import / export, import()
+
+/**
+ * Structured description of how a feature shows up in JS/TS source
+ */
+export interface JsFeatureMatcher {
+    syntax?: JsSyntaxFeature[];
+    globals?: string[];                   // Global names, e.g. 'IntersectionObserver'; shadowed locals are ignored
+    members?: string[];                   // Property names, e.g. 'Element.checkVisibility' on a receiver whose type or
+                                          // global resolves to the interface; bare names such as 'then' match on any
+                                          // object and are only for widely available features
+    extends?: string[];                   // Global base classes, e.g. 'HTMLElement'
+}
+
+// Receivers that expose globals as properties: window.fetch, globalThis.ResizeObserver
+const GLOBAL_OBJECTS = new Set(['window', 'self', 'globalThis']);
+
+// Globals holding the single instance of an interface: `document.startViewTransition` is Document's
+const GLOBAL_INSTANCES: Record<string, string> = {
+    window: 'Window',
+    self: 'Window',
+    globalThis: 'Window',
+    document: 'Document',
+    navigator: 'Navigator',
+    location: 'Location',
+    history: 'History',
+    screen: 'Screen',
+    performance: 'Performance',
+    crypto: 'Crypto',
+    localStorage: 'Storage',
+    sessionStorage: 'Storage',
+    customElements: 'CustomElementRegistry',
+    caches: 'CacheStorage',
+    indexedDB: 'IDBFactory',
+    visualViewport: 'VisualViewport',
+    scheduler: 'Scheduler'
+};
+
+// Declarations the type checker resolves receivers against, next to the interfaces of the member
+// matchers: the DOM inheritance chain and the common ways of getting hold of an element
+const CHECKER_LIB_FILE = '/baseline-lib.d.ts';
+const CHECKER_LIB = `
+interface Array<T> {}
+interface ReadonlyArray<T> {}
+interface Promise<T> {}
+interface Map<K, V> {}
+interface Set<T> {}
+interface WeakMap<K extends object, V> {}
+interface WeakSet<T extends object> {}
+interface Boolean {}
+interface Function {}
+interface IArguments {}
+interface Number {}
+interface Object {}
+interface RegExp {}
+interface String {}
+interface EventTarget {}
+interface Node extends EventTarget { parentElement: HTMLElement; parentNode: Node; }
+interface Element extends Node {
+    querySelector(selectors: string): Element;
+    closest(selectors: string): Element;
+    firstElementChild: Element;
+    lastElementChild: Element;
+    nextElementSibling: Element;
+    previousElementSibling: Element;
+    shadowRoot: ShadowRoot;
+}
+interface HTMLElement extends Element {}
+interface SVGElement extends Element {}
+interface MathMLElement extends Element {}
+interface DocumentFragment extends Node { querySelector(selectors: string): Element; getElementById(elementId: string): HTMLElement; }
+interface ShadowRoot extends DocumentFragment { host: Element; }
+interface Document extends Node {
+    querySelector(selectors: string): Element;
+    getElementById(elementId: string): HTMLElement;
+    createElement(tagName: string): HTMLElement;
+    body: HTMLElement;
+    head: HTMLElement;
+    documentElement: HTMLElement;
+    activeElement: Element;
+}
+interface Window extends EventTarget { document: Document; navigator: Navigator; }
+interface Navigator {}
+`;
+
+// Interfaces and names the checker library declares itself
+const CHECKER_LIB_MEMBERS = new Set(Array.from(CHECKER_LIB.matchAll(/\b(\w+)(?=\(|: )/g), match => match[1]));
+const CHECKER_LIB_INTERFACES = new Map(Array.from(CHECKER_LIB.matchAll(/^interface (\w+)/gm), match => [match[1], true]));
+
+// The global Object and Function types back every object: their members would resolve on any receiver
+const UNTYPED_OWNERS = new Set(['Object', 'Function']);
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+    'javascript': ts.ScriptKind.JS,
+    'javascriptreact': ts.ScriptKind.JSX,
+    'typescript': ts.ScriptKind.TS,
+    'typescriptreact': ts.ScriptKind.TSX
+};
+
+/**
+ * Parser-backed detector for JavaScript, TypeScript, JSX and TSX. Syntax
+ * features come from the AST, so strings and comments never match, and
+ * global APIs are resolved through scopes, so a local `fetch` is not the
+ * Fetch API.
+ */
+export class JsFeatureDetector {
+    private syntax = new Map<JsSyntaxFeature, string[]>();
+    private globals = new Map<string, string[]>();
+    private members = new Map<string, string[]>();             // Bare and `Owner.member` names
+    private typedMembers = new Set<string>();                   // Member names of `Owner.member` matchers
+    private checkerLib: ts.SourceFile | undefined;
+    private baseClasses = new Map<string, string[]>();
+
+    constructor(definitions: Array<{ id: string; js?: JsFeatureMatcher }>) {
+        const add = <K>(map: Map<K, string[]>, key: K, id: string) => {
+            const ids = map.get(key) || [];
+            ids.push(id);
+            map.set(key, ids);
+        };
+
+        definitions.forEach(({ id, js }) => {
+            js?.syntax?.forEach(kind => add(this.syntax, kind, id));
+            js?.globals?.forEach(name => add(this.globals, name, id));
+            js?.members?.forEach(name => {
+                add(this.members, name, id);
+                if (name.includes('.')) {
+                    this.typedMembers.add(name.slice(name.lastIndexOf('.') + 1));
+                }
+            });
+            js?.extends?.forEach(name => add(this.baseClasses, name, id));
+        });
+    }
+
+    public static supportsLanguage(languageId: string): boolean {
+        return languageId in SCRIPT_KINDS;
+    }
+
+    /**
+     * `declared` adds names bound around the text, e.g. the top-level
+     * bindings of the file a block was cut from
+     */
+    public detect(text: string, languageId: string = 'javascript', declared?: Set<string>): FeatureMatch[] {
+        const sourceFile = parseScript(text, languageId);
+        const matches: FeatureMatch[] = [];
+        const scopes: Array<Set<string>> = declared ? [declared] : [];
+
+        const emit = (ids: string[] | undefined, start: number, end: number, matcher: string) => {
+            ids?.forEach(featureId => matches.push({ featureId, start, end, text: text.slice(start, end), matcher }));
+        };
+        const emitNode = (ids: string[] | undefined, node: ts.Node, matcher: string) => {
+            emit(ids, node.getStart(sourceFile), node.getEnd(), matcher);
+        };
+        const emitSyntax = (kind: JsSyntaxFeature, start: number, end: number) => {
+            emit(this.syntax.get(kind), start, end, `js-syntax:${kind}`);
+        };
+
+        const isShadowed = (name: string) => scopes.some(scope => scope.has(name));
+
+        // Created on the first member access no global resolves
+        let checker: ts.TypeChecker | undefined;
+        const getChecker = () => checker = checker || this.createChecker(sourceFile);
+
+        const visit = (node: ts.Node): void => {
+            // Types never run in the browser
+            if (ts.isTypeNode(node) || ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) {
+                return;
+            }
+
+            const scope = createsScope(node) ? collectDeclarations(node) : undefined;
+            if (scope) {
+                scopes.push(scope);
+            }
+
+            this.checkSyntax(node, sourceFile, emitSyntax);
+
+            if (ts.isIdentifier(node) && this.globals.has(node.text) && isReference(node) && !isShadowed(node.text)) {
+                emitNode(this.globals.get(node.text), node, `js-global:${node.text}`);
+            }
+
+            if (ts.isPropertyAccessExpression(node)) {
+                const name = node.name.text;
+                const receiver = node.expression;
+
+                // window.fetch, globalThis.IntersectionObserver
+                if (ts.isIdentifier(receiver) && GLOBAL_OBJECTS.has(receiver.text) && !isShadowed(receiver.text) && this.globals.has(name)) {
+                    emitNode(this.globals.get(name), node, `js-global:${name}`);
+                }
+                if (this.members.has(name)) {
+                    emit(this.members.get(name), node.name.getStart(sourceFile) - 1, node.getEnd(), `js-member:${name}`);
+                }
+                // Map.groupBy, document.startViewTransition, window.navigator.gpu
+                const qualified = resolveReceiver(receiver, isShadowed)
+                    .map(owner => `${owner}.${name}`)
+                    .filter(candidate => this.members.has(candidate));
+                // el.checkVisibility(), with `el` typed or initialized from document.querySelector()
+                if (qualified.length === 0 && this.typedMembers.has(name)) {
+                    const owner = this.resolveMemberOwner(getChecker(), node);
+                    if (owner && this.members.has(`${owner}.${name}`)) {
+                        qualified.push(`${owner}.${name}`);
+                    }
+                }
+                qualified.forEach(key => {
+                    emit(this.members.get(key), node.name.getStart(sourceFile) - 1, node.getEnd(), `js-member:${key}`);
+                });
+            }
+
+            if ((ts.isClassDeclaration(node) || ts.isClassExpression(node)) && node.heritageClauses) {
+                node.heritageClauses
+                    .filter(clause => clause.token === ts.SyntaxKind.ExtendsKeyword)
+                    .forEach(clause => clause.types.forEach(type => {
+                        const base = type.expression;
+                        if (ts.isIdentifier(base) && this.baseClasses.has(base.text) && !isShadowed(base.text)) {
+                            emitNode(this.baseClasses.get(base.text), type, `js-global:${base.text}`);
+                        }
+                    }));
+            }
+
+            ts.forEachChild(node, visit);
+
+            if (scope) {
+                scopes.pop();
+            }
+        };
+
+        visit(sourceFile);
+        return matches;
+    }
+
+    /**
+     * A type checker for one script, against declarations of the DOM chain
+     * and of every interface with member matchers instead of the full DOM
+     * library, which is not bundled
+     */
+    private createChecker(sourceFile: ts.SourceFile): ts.TypeChecker {
+        const lib = this.getCheckerLib();
+        const host: ts.CompilerHost = {
+            getSourceFile: fileName => fileName === lib.fileName ? lib : fileName === sourceFile.fileName ? sourceFile : undefined,
+            getDefaultLibFileName: () => lib.fileName,
+            writeFile: () => undefined,
+            getCurrentDirectory: () => '/',
+            getCanonicalFileName: fileName => fileName,
+            useCaseSensitiveFileNames: () => true,
+            getNewLine: () => '\n',
+            fileExists: fileName => fileName === lib.fileName || fileName === sourceFile.fileName,
+            readFile: () => undefined
+        };
+        const options: ts.CompilerOptions = { noLib: true, noResolve: true, allowJs: true, noEmit: true, types: [], target: ts.ScriptTarget.Latest };
+        return ts.createProgram([sourceFile.fileName, lib.fileName], options, host).getTypeChecker();
+    }
+
+    private getCheckerLib(): ts.SourceFile {
+        if (!this.checkerLib) {
+            const owners = new Map<string, string[]>();
+            Array.from(this.members.keys())
+                .filter(key => key.includes('.'))
+                .forEach(key => {
+                    const [owner, member] = key.split('.');
+                    if (!UNTYPED_OWNERS.has(owner) && !CHECKER_LIB_MEMBERS.has(member)) {
+                        owners.set(owner, [...(owners.get(owner) || []), member]);
+                    }
+                });
+            // Methods, so they merge with the library's own declarations
+            const declarations = Array.from(owners, ([owner, members]) => {
+                const typeParameters = CHECKER_LIB.match(new RegExp(`^interface ${owner}(<[^>]*>)`, 'm'))?.[1] || '';
+                const base = CHECKER_LIB_INTERFACES.has(owner) ? undefined : getElementBase(owner);
+                return `interface ${owner}${typeParameters}${base ? ` extends ${base}` : ''} { ${members.map(member => `${member}(...args: any[]): any;`).join(' ')} }`;
+            });
+            // `globalThis` is built in
+            const globals = Object.entries(GLOBAL_INSTANCES)
+                .filter(([name, owner]) => name !== 'globalThis')
+                .filter(([, owner]) => CHECKER_LIB_INTERFACES.has(owner) || owners.has(owner))
+                .map(([name, owner]) => `declare var ${name}: ${owner};`);
+            this.checkerLib = ts.createSourceFile(CHECKER_LIB_FILE, [CHECKER_LIB, ...declarations, ...globals].join('\n'), ts.ScriptTarget.Latest, true);
+        }
+        return this.checkerLib;
+    }
+
+    /**
+     * The interface declaring the accessed member, for members the checker
+     * library declares; undefined for the script's own types and `any`
+     */
+    private resolveMemberOwner(checker: ts.TypeChecker, node: ts.PropertyAccessExpression): string | undefined {
+        const lib = this.getCheckerLib();
+        const declaration = checker.getSymbolAtLocation(node.name)?.declarations?.find(candidate =>
+            candidate.getSourceFile() === lib && ts.isInterfaceDeclaration(candidate.parent));
+        return declaration && (declaration.parent as ts.InterfaceDeclaration).name.text;
+    }
+
+    private checkSyntax(node: ts.Node, sourceFile: ts.SourceFile, emit: (kind: JsSyntaxFeature, start: number, end: number) => void): void {
+        const tokenRange = (token: ts.Node | undefined, kind: JsSyntaxFeature) => {
+            if (token) {
+                emit(kind, token.getStart(sourceFile), token.getEnd());
+            }
+        };
+
+        // Optional chaining
+        if (ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node) || ts.isCallExpression(node)) {
+            tokenRange(node.questionDotToken, 'optional-chaining');
+        }
+
+        if (ts.isBinaryExpression(node)) {
+            const operator = node.operatorToken.kind;
+            if (operator === ts.SyntaxKind.QuestionQuestionToken || operator === ts.SyntaxKind.QuestionQuestionEqualsToken) {
+                tokenRange(node.operatorToken, 'nullish-coalescing');
+            }
+            // [a, b] = [b, a]
+            if (operator === ts.SyntaxKind.EqualsToken &&
+                (ts.isObjectLiteralExpression(node.left) || ts.isArrayLiteralExpression(node.left))) {
+                tokenRange(node.left, 'destructuring');
+            }
+        }
+
+        if (ts.isObjectBindingPattern(node) || ts.isArrayBindingPattern(node)) {
+            tokenRange(node, 'destructuring');
+        }
+
+        if (ts.isSpreadElement(node) || ts.isSpreadAssignment(node) || ts.isJsxSpreadAttribute(node)) {
+            tokenRange(node, 'spread');
+        }
+        if ((ts.isParameter(node) || ts.isBindingElement(node)) && node.dotDotDotToken) {
+            tokenRange(node.dotDotDotToken, 'spread');
+        }
+
+        // async / await
+        if (ts.canHaveModifiers(node)) {
+            tokenRange(ts.getModifiers(node)?.find(m => m.kind === ts.SyntaxKind.AsyncKeyword), 'async-await');
+        }
+        if (ts.isAwaitExpression(node)) {
+            emit('async-await', node.getStart(sourceFile), node.getStart(sourceFile) + 'await'.length);
+        }
+        if (ts.isForOfStatement(node)) {
+            tokenRange(node.awaitModifier, 'async-await');
+        }
+
+        // ES modules; type-only imports and exports are erased at compile time
+        if (ts.isImportDeclaration(node) && !node.importClause?.isTypeOnly) {
+            emit('modules', node.getStart(sourceFile), node.getStart(sourceFile) + 'import'.length);
+        }
+        if ((ts.isExportDeclaration(node) && !node.isTypeOnly) || ts.isExportAssignment(node)) {
+            emit('modules', node.getStart(sourceFile), node.getStart(sourceFile) + 'export'.length);
+        }
+        if (ts.canHaveModifiers(node) && !ts.isParameter(node)) {
+            tokenRange(ts.getModifiers(node)?.find(m => m.kind === ts.SyntaxKind.ExportKeyword), 'modules');
+        }
+        if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+            tokenRange(node.expression, 'modules');
+        }
+    }
+}
+
+// HTMLDialogElement is an HTMLElement, SVGPathElement an SVGElement
+function getElementBase(owner: string): string | undefined {
+    return /^(HTML|SVG|MathML)\w+Element$/.exec(owner)?.[1].concat('Element');
+}
+
+/**
+ * Interfaces or globals a member receiver stands for: the global itself for
+ * static members (`Map`), and the interface of a global instance
+ * (`document` is a Document). Empty when the receiver is any other value.
+ */
+function resolveReceiver(receiver: ts.Expression, isShadowed: (name: string) => boolean): string[] {
+    // window.navigator is navigator
+    let name: string | undefined;
+    if (ts.isIdentifier(receiver) && !isShadowed(receiver.text)) {
+        name = receiver.text;
+    } else if (ts.isPropertyAccessExpression(receiver) && ts.isIdentifier(receiver.expression) &&
+        GLOBAL_OBJECTS.has(receiver.expression.text) && !isShadowed(receiver.expression.text)) {
+        name = receiver.name.text;
+    }
+    if (!name) {
+        return [];
+    }
+    const instanceOf = Object.prototype.hasOwnProperty.call(GLOBAL_INSTANCES, name) ? GLOBAL_INSTANCES[name] : undefined;
+    return instanceOf ? [name, instanceOf] : [name];
+}
+
+function createsScope(node: ts.Node): boolean {
+    return ts.isSourceFile(node) || ts.isBlock(node) || ts.isFunctionLike(node) || ts.isClassLike(node) ||
+        ts.isForStatement(node) || ts.isForInStatement(node) || ts.isForOfStatement(node) ||
+        ts.isCatchClause(node) || ts.isCaseBlock(node) || ts.isModuleBlock(node);
+}
+
+/**
+ * Names declared by a scope node. `var` declarations are hoisted to the
+ * nearest function or file; everything else stays in its block.
+ */
+function collectDeclarations(scopeNode: ts.Node): Set<string> {
+    const names = new Set<string>();
+
+    const addBinding = (name: ts.BindingName) => {
+        if (ts.isIdentifier(name)) {
+            names.add(name.text);
+        } else {
+            name.elements.forEach(element => {
+                if (!ts.isOmittedExpression(element)) {
+                    addBinding(element.name);
+                }
+            });
+        }
+    };
+
+    const addStatement = (statement: ts.Statement) => {
+        if (ts.isVariableStatement(statement)) {
+            statement.declarationList.declarations.forEach(declaration => addBinding(declaration.name));
+        } else if ((ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement) ||
+            ts.isEnumDeclaration(statement) || ts.isModuleDeclaration(statement)) &&
+            statement.name && ts.isIdentifier(statement.name)) {
+            names.add(statement.name.text);
+        } else if (ts.isImportEqualsDeclaration(statement)) {
+            names.add(statement.name.text);
+        } else if (ts.isImportDeclaration(statement) && statement.importClause) {
+            const { name, namedBindings } = statement.importClause;
+            if (name) {
+                names.add(name.text);
+            }
+            if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+                names.add(namedBindings.name.text);
+            } else if (namedBindings) {
+                namedBindings.elements.forEach(element => names.add(element.name.text));
+            }
+        }
+    };
+
+    const addHoistedVars = (node: ts.Node) => {
+        ts.forEachChild(node, child => {
+            if (ts.isFunctionLike(child) || ts.isClassLike(child)) {
+                return;
+            }
+            if (ts.isVariableDeclarationList(child) && !(child.flags & ts.NodeFlags.BlockScoped)) {
+                child.declarations.forEach(declaration => addBinding(declaration.name));
+            }
+            addHoistedVars(child);
+        });
+    };
+
+    if (ts.isSourceFile(scopeNode) || ts.isBlock(scopeNode) || ts.isModuleBlock(scopeNode)) {
+        scopeNode.statements.forEach(addStatement);
+    } else if (ts.isCaseBlock(scopeNode)) {
+        scopeNode.clauses.forEach(clause => clause.statements.forEach(addStatement));
+    } else if (ts.isCatchClause(scopeNode) && scopeNode.variableDeclaration) {
+        addBinding(scopeNode.variableDeclaration.name);
+    } else if (ts.isForStatement(scopeNode) || ts.isForInStatement(scopeNode) || ts.isForOfStatement(scopeNode)) {
+        const initializer = scopeNode.initializer;
+        if (initializer && ts.isVariableDeclarationList(initializer)) {
+            initializer.declarations.forEach(declaration => addBinding(declaration.name));
+        }
+    } else if (ts.isClassExpression(scopeNode) && scopeNode.name) {
+        names.add(scopeNode.name.text);
+    }
+
+    if (ts.isSourceFile(scopeNode)) {
+        addHoistedVars(scopeNode);
+    }
+    if (ts.isFunctionLike(scopeNode)) {
+        scopeNode.parameters.forEach(parameter => addBinding(parameter.name));
+        // Named function expressions see their own name
+        if (ts.isFunctionExpression(scopeNode) && scopeNode.name) {
+            names.add(scopeNode.name.text);
+        }
+        const body = (scopeNode as ts.FunctionLikeDeclaration).body;
+        if (body) {
+            addHoistedVars(body);
+        }
+    }
+
+    return names;
+}
+
+/**
+ * Whether an identifier reads a binding, as opposed to naming a property,
+ * declaration or label
+ */
+function isReference(node: ts.Identifier): boolean {
+    const parent = node.parent;
+    if (!parent) {
+        return false;
+    }
+
+    if (ts.isPropertyAccessExpression(parent)) {
+        return parent.name !== node;
+    }
+    if (ts.isQualifiedName(parent)) {
+        return parent.right !== node;
+    }
+    if (ts.isTypeOfExpression(parent)) {
+        return false; // Feature detection, not usage
+    }
+    if (ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent) || ts.isMethodDeclaration(parent) ||
+        ts.isGetAccessorDeclaration(parent) || ts.isSetAccessorDeclaration(parent) || ts.isPropertySignature(parent) ||
+        ts.isMethodSignature(parent) || ts.isEnumMember(parent)) {
+        return parent.name !== node;
+    }
+    if (ts.isVariableDeclaration(parent) || ts.isParameter(parent) || ts.isFunctionDeclaration(parent) ||
+        ts.isFunctionExpression(parent) || ts.isClassDeclaration(parent) || ts.isClassExpression(parent) ||
+        ts.isEnumDeclaration(parent) || ts.isModuleDeclaration(parent) || ts.isImportEqualsDeclaration(parent)) {
+        return parent.name !== node;
+    }
+    if (ts.isBindingElement(parent)) {
+        return parent.name !== node && parent.propertyName !== node;
+    }
+    if (ts.isImportClause(parent) || ts.isImportSpecifier(parent) || ts.isNamespaceImport(parent) ||
+        ts.isExportSpecifier(parent) || ts.isLabeledStatement(parent) || ts.isBreakOrContinueStatement(parent)) {
+        return false;
+    }
+    if (ts.isJsxAttribute(parent) || ts.isJsxOpeningElement(parent) || ts.isJsxSelfClosingElement(parent) || ts.isJsxClosingElement(parent)) {
+        return false;
+    }
+    if (ts.isExpressionWithTypeArguments(parent) && ts.isHeritageClause(parent.parent)) {
+        return false; // Reported as a base class
+    }
+
+    return true;
+}
+
+/**
+ * Names a script declares at its top level: imports, functions, classes,
+ * variables, and `var`s hoisted from nested blocks
+ */
+export function getTopLevelBindings(text: string, languageId: string): Set<string> {
+    return collectDeclarations(parseScript(text, languageId));
+}
+
+/**
+ * Syntax tree of a script, with parent pointers
+ */
+export function parseScript(text: string, languageId: string): ts.SourceFile {
+    const scriptKind = SCRIPT_KINDS[languageId] ?? ts.ScriptKind.JS;
+    return ts.createSourceFile('detect.' + ts.ScriptKind[scriptKind].toLowerCase(), text, ts.ScriptTarget.Latest, true, scriptKind);
+}
@@ -0,0 +1,145 @@
+import * as os from 'os';
+import { Worker } from 'worker_threads';
+import { FeatureMatch, FeaturePatternRegistry } from '../FeaturePatternRegistry';
+
+export interface ScanRequest {
+    id: number;
+    text: string;
+    languageId: string;
+}
+
+export interface ScanResponse {
+    id: number;
+    matches?: FeatureMatch[];
+    error?: string;
+}
+
+interface ScanTask extends ScanRequest {
+    resolve: (matches: FeatureMatch[]) => void;
+    reject: (error: Error) => void;
+}
+
+// Idle workers hold a full pattern registry; release them after a while
+const IDLE_TIMEOUT = 30 * 1000;
+
+/**
+ * Runs FeaturePatternRegistry.findMatches in worker threads.
+ * Workers start on demand and stop when idle. If they cannot be started
+ * (e.g. the bundled worker script is missing), detection falls back to
+ * the calling thread.
+ */
+export class ScanWorkerPool {
+    public readonly size: number;
+    private idle: Worker[] = [];
+    private busy = new Map<Worker, ScanTask>();
+    private queue: ScanTask[] = [];
+    private nextId = 0;
+    private idleTimer: NodeJS.Timeout | undefined;
+    private fallback: FeaturePatternRegistry | undefined;
+
+    constructor(private workerScript: string, size: number = Math.min(Math.max(os.cpus().length - 1, 1), 4)) {
+        this.size = size;
+    }
+
+    public findMatches(text: string, languageId: string): Promise<FeatureMatch[]> {
+        if (this.fallback) {
+            return Promise.resolve(this.fallback.findMatches(text, languageId));
+        }
+
+        return new Promise((resolve, reject) => {
+            this.queue.push({ id: this.nextId++, text, languageId, resolve, reject });
+            this.dispatch();
+        });
+    }
+
+    public dispose(): void {
+        clearTimeout(this.idleTimer);
+        this.queue.forEach(task => task.reject(new Error('Scan worker pool disposed')));
+        this.queue = [];
+        this.busy.forEach(task => task.reject(new Error('Scan worker pool disposed')));
+        [...this.idle, ...this.busy.keys()].forEach(worker => worker.terminate());
+        this.idle = [];
+        this.busy.clear();
+    }
+
+    private dispatch(): void {
+        clearTimeout(this.idleTimer);
+
+        while (this.queue.length > 0) {
+            const worker = this.idle.pop() || (this.busy.size < this.size ? this.spawn() : undefined);
+            if (!worker) {
+                return;
+            }
+
+            const task = this.queue.shift()!;
+            this.busy.set(worker, task);
+            const request: ScanRequest = { id: task.id, text: task.text, languageId: task.languageId };
+            worker.postMessage(request);
+        }
+
+        if (this.busy.size === 0) {
+            this.idleTimer = setTimeout(() => {
+                this.idle.forEach(worker => worker.terminate());
+                this.idle = [];
+            }, IDLE_TIMEOUT);
+        }
+    }
+
+    private spawn(): Worker | undefined {
+        if (this.fallback) {
+            return undefined;
+        }
+
+        try {
+            const worker = new Worker(this.workerScript);
+            worker.on('message', (response: ScanResponse) => this.complete(worker, response));
+            worker.on('error', () => this.fail(worker));
+            worker.unref();
+            return worker;
+        } catch (error) {
+            this.useFallback();
+            return undefined;
+        }
+    }
+
+    private complete(worker: Worker, response: ScanResponse): void {
+        const task = this.busy.get(worker);
+        this.busy.delete(worker);
+        this.idle.push(worker);
+
+        if (task && task.id === response.id) {
+            if (response.error !== undefined) {
+                task.reject(new Error(response.error));
+            } else {
+                task.resolve(response.matches || []);
+            }
+        }
+
+        this.dispatch();
+    }
+
+    private fail(worker: Worker): void {
+        // Workers that fail to start or crash are not retried; detect on this thread instead
+        const task = this.busy.get(worker);
+        this.busy.delete(worker);
+        worker.terminate();
+        if (task) {
+            this.queue.unshift(task);
+        }
+        this.useFallback();
+    }
+
+    private useFallback(): void {
+        this.fallback ??= new FeaturePatternRegistry();
+
+        const queued = this.queue;
+        this.queue = [];
+        queued.forEach(task => {
+            try {
+                task.resolve(this.fallback!.findMatches(task.text, task.languageId));
+            } catch (error) {
+                task.reject(error instanceof Error ? error : new Error(String(error)));
+            }
+        });
+    }
+}
@@ -0,0 +1,18 @@
+import { parentPort } from 'worker_threads';
+import { FeaturePatternRegistry } from '../FeaturePatternRegistry';
+import { ScanRequest, ScanResponse } from './ScanWorkerPool';
+
+/**
+ * Worker entry point: runs feature detection off the extension host thread
+ */
+const registry = new FeaturePatternRegistry();
+
+parentPort?.on('message', (request: ScanRequest) => {
+    let response: ScanResponse;
+    try {
+        response = { id: request.id, matches: registry.findMatches(request.text, request.languageId) };
+    } catch (error) {
+        response = { id: request.id, error: error instanceof Error ? error.message : String(error) };
+    }
+    parentPort!.postMessage(response);
+});
@@ -5,12 +5,41 @@ import { ConfigurationManager } from './core/ConfigurationManager';
 import { BaselineHoverProvider } from './providers/HoverProvider';
 import { BaselineCodeActionProvider } from './providers/CodeActionProvider';
 import { BaselineDiagnosticProvider } from './providers/DiagnosticProvider';
+import { BaselineCompletionProvider } from './providers/CompletionProvider';
+import { BaselineInlineStatusProvider } from './providers/InlineStatusProvider';
 import { GraphView } from './views/GraphView';
-import { ProjectAnalyzer, ProjectAnalysis } from './core/ProjectAnalyzer';
+import { ProjectAnalyzer, ProjectAnalysis, ProjectFeature } from './core/ProjectAnalyzer';
+import { formatTargets } from './core/BrowserslistResolver';
+import { hasFallbackFix } from './core/FallbackFixes';
+import { formatSuppression } from './core/InlineSuppressions';
+import { SOURCE_LANGUAGE_IDS } from './core/SourceLanguages';
 
 let diagnosticProvider: BaselineDiagnosticProvider;
 let configManager: ConfigurationManager;
 
+// Report entries link to the source; the report is an untitled document, so links need absolute URIs
+const MAX_REPORT_LOCATIONS = 10;
+
+function formatLocation(location: ProjectFeature['locations'][number]): string {
+    const label = `${location.file}:${location.line}:${location.column}`;
+    return location.uri ? `[${label}](<${location.uri}#L${location.line},${location.column}>)` : label;
+}
+
+function formatFiles(projectFeature: ProjectFeature): string {
+    return projectFeature.files.map(file => {
+        const uri = projectFeature.locations.find(location => location.file === file)?.uri;
+        return uri ? `[${file}](<${uri}>)` : file;
+    }).join(', ');
+}
+
+// Workspace files with at least one reported usage that has a fallback rewrite
+async function findFixableDocuments(projectAnalyzer: ProjectAnalyzer): Promise<vscode.TextDocument[]> {
+    const files = await projectAnalyzer.indexWorkspace();
+    const fixable = files.filter(file => file.scan.features.some(feature =>
+        !feature.suppressed && !feature.guard && hasFallbackFix(feature.featureId, file.scan.languageId)));
+    return Promise.all(fixable.map(file => vscode.workspace.openTextDocument(file.uri)));
+}
+
 // Helper function to generate detailed report
 function generateDetailedReport(analysis: ProjectAnalysis): string {
     let report = `# Baseline Compatibility Report\n\n`;
@@ -18,15 +47,37 @@ function generateDetailedReport(analysis: ProjectAnalysis): string {
 
     const config = configManager.getConfiguration();
     report += `## Configuration\n`;
-    report += `- **Target Browsers**: ${config.targetBrowsers.join(', ')}\n`;
-    report += `- **Risk Tolerance**: ${config.riskTolerance}\n\n`;
+    if (configManager.getBaselineTarget()) {
+        report += `- **Target**: ${configManager.describeTarget()}\n`;
+    } else {
+        report += `- **Target Browsers**: ${formatTargets(configManager.getBrowserTargets())} (from ${configManager.getTargetSource()})\n`;
+    }
+    report += `- **Risk Tolerance**: ${config.riskTolerance}\n`;
+    const policy = configManager.getPolicy();
+    if (policy) {
+        report += `- **Project Policy**: ${vscode.workspace.asRelativePath(policy.source.replace(/#baseline$/, ''))}\n`;
+    }
+    report += `\n`;
 
     report += `## Summary\n`;
     report += `- **Compatibility Score**: ${analysis.compatibilityScore}/100\n`;
     report += `- **Files Analyzed**: ${analysis.analyzedFiles}/${analysis.totalFiles}\n`;
     report += `- **Features Found**: ${analysis.features.size}\n`;
     report += `- **Risk Features**: ${analysis.riskFeatures.length}\n`;
-    report += `- **Safe Features**: ${analysis.safeFeatures.length}\n\n`;
+    report += `- **Safe Features**: ${analysis.safeFeatures.length}\n`;
+    report += `- **Guarded Features**: ${analysis.guardedFeatures.length}\n`;
+    report += `- **Suppressed Features**: ${analysis.suppressions.size}\n\n`;
+
+    if (analysis.packages?.length) {
+        report += `## Packages\n`;
+        report += `Each package is checked against its own targets; the compatibility score above is their rollup, weighted by files.\n\n`;
+        report += `| Package | Path | Targets | Score | Files | Risk Features |\n|---|---|---|---|---|---|\n`;
+        analysis.packages.forEach(pkg => {
+            const risks = pkg.analysis.riskFeatures.map(rf => rf.feature.name || rf.feature.id).join(', ') || '-';
+            report += `| ${pkg.name} | ${pkg.path} | ${pkg.targets} | ${pkg.analysis.compatibilityScore}/100 | ${pkg.analysis.analyzedFiles} | ${risks} |\n`;
+        });
+        report += `\n`;
+    }
 
     report += `## Risk Features (Need Attention)\n`;
     if (analysis.riskFeatures.length > 0) {
@@ -34,12 +85,18 @@ function generateDetailedReport(analysis: ProjectAnalysis): string {
             report += `\n### ${rf.feature.name || rf.feature.id}\n`;
             report += `- **Status**: ${rf.feature.status?.baseline || 'Unknown'}\n`;
             report += `- **Usage Count**: ${rf.usageCount}\n`;
-            report += `- **Files**: ${rf.files.join(', ')}\n`;
-            if (rf.locations.length > 0 && rf.locations.length <= 5) {
+            report += `- **Files**: ${formatFiles(rf)}\n`;
+            if (rf.compatKeys?.length) {
+                report += `- **Sub-features**: ${rf.compatKeys.map(key => `\`${key}\``).join(', ')}\n`;
+            }
+            if (rf.locations.length > 0) {
                 report += `- **Locations**:\n`;
-                rf.locations.forEach(loc => {
-                    report += `  - ${loc.file}:${loc.line}:${loc.column}\n`;
+                rf.locations.slice(0, MAX_REPORT_LOCATIONS).forEach(loc => {
+                    report += `  - ${formatLocation(loc)}\n`;
                 });
+                if (rf.locations.length > MAX_REPORT_LOCATIONS) {
+                    report += `  - ... and ${rf.locations.length - MAX_REPORT_LOCATIONS} more\n`;
+                }
             }
         });
     } else {
@@ -53,6 +110,34 @@ function generateDetailedReport(analysis: ProjectAnalysis): string {
         });
     }
 
+    if (analysis.guardedFeatures.length > 0) {
+        report += `\n## Guarded Features\n`;
+        report += `Not supported by every target, but only used behind \`@supports\` or feature detection:\n\n`;
+        analysis.guardedFeatures.forEach(gf => {
+            report += `- **${gf.feature.name || gf.feature.id}**: ${gf.usageCount} uses in ${formatFiles(gf)}\n`;
+        });
+    }
+
+    if (analysis.suppressions.size > 0) {
+        report += `\n## Suppressions\n`;
+        report += `Usages silenced by \`baseline-ignore\` / \`baseline-disable\` comments:\n\n`;
+        report += `| Feature | Suppressed | Files |\n|---|---|---|\n`;
+        Array.from(analysis.suppressions.values())
+            .sort((a, b) => b.usageCount - a.usageCount)
+            .forEach(sf => {
+                report += `| ${sf.feature.name || sf.feature.id} | ${sf.usageCount} | ${formatFiles(sf)} |\n`;
+            });
+    }
+
+    if (analysis.exclusions?.length) {
+        report += `\n## Excluded Files\n`;
+        report += `Files left out of the scan by the include/exclude settings, \`files.exclude\` and \`.gitignore\`:\n\n`;
+        report += `| Glob | Source | Files |\n|---|---|---|\n`;
+        analysis.exclusions.forEach(exclusion => {
+            report += `| \`${exclusion.pattern}\` | ${exclusion.source} | ${exclusion.count} |\n`;
+        });
+    }
+
     report += `\n## Recommendations\n`;
     analysis.suggestions.forEach(suggestion => {
         report += `- ${suggestion}\n`;
@@ -86,35 +171,69 @@ export async function activate(context: vscode.ExtensionContext) {
 
         // Initialize providers (conditionally based on config)
         const hoverProvider = new BaselineHoverProvider(index, configManager);
-        const codeActionProvider = new BaselineCodeActionProvider(index, configManager);
-        diagnosticProvider = new BaselineDiagnosticProvider(index, configManager);
+        // Project analysis keeps a persistent feature index in workspace storage and
+        // runs detection in worker threads
+        const projectAnalyzer = new ProjectAnalyzer(index, {
+            storageUri: context.storageUri,
+            indexVersion: context.extension.packageJSON.version,
+            workerScript: vscode.Uri.joinPath(context.extensionUri, 'dist', 'scanWorker.js').fsPath
+        });
+        context.subscriptions.push(projectAnalyzer);
+        diagnosticProvider = new BaselineDiagnosticProvider(index, configManager, projectAnalyzer);
+        const codeActionProvider = new BaselineCodeActionProvider(index, configManager, diagnosticProvider);
 
         // Initialize views
-        const graphView = new GraphView(context.extensionUri, index);
+        const graphView = new GraphView(context.extensionUri, index, projectAnalyzer);
 
         // Register providers
         if (config.enableHoverInfo) {
             context.subscriptions.push(
                 vscode.languages.registerHoverProvider(
-                    ['css', 'scss', 'less', 'sass', 'javascript', 'typescript', 'javascriptreact', 'typescriptreact', 'html'],
+                    SOURCE_LANGUAGE_IDS,
                     hoverProvider
                 )
             );
         }
 
+        if (config.enableCompletions) {
+            context.subscriptions.push(
+                vscode.languages.registerCompletionItemProvider(
+                    SOURCE_LANGUAGE_IDS,
+                    new BaselineCompletionProvider(index, configManager),
+                    ...BaselineCompletionProvider.triggerCharacters
+                )
+            );
+        }
+
+        // Toggled per surface by `inlayHints` and `codeLens`, read on every request
+        const inlineStatusProvider = new BaselineInlineStatusProvider(configManager, diagnosticProvider);
+        context.subscriptions.push(
+            inlineStatusProvider,
+            vscode.languages.registerInlayHintsProvider(
+                SOURCE_LANGUAGE_IDS,
+                inlineStatusProvider
+            ),
+            vscode.languages.registerCodeLensProvider(
+                SOURCE_LANGUAGE_IDS,
+                inlineStatusProvider
+            )
+        );
+
         if (config.enableCodeActions) {
             context.subscriptions.push(
                 vscode.languages.registerCodeActionsProvider(
-                    ['css', 'scss', 'less', 'sass', 'javascript', 'typescript'],
-                    codeActionProvider
+                    SOURCE_LANGUAGE_IDS,
+                    codeActionProvider,
+                    { providedCodeActionKinds: BaselineCodeActionProvider.providedCodeActionKinds }
                 )
             );
         }
 
         // Register commands
         context.subscriptions.push(
-            vscode.commands.registerCommand('baseline-navigator.showGraph', () => {
-                graphView.show();
+            vscode.commands.registerCommand('baseline-navigator.showGraph', (featureId?: unknown) => {
+                // Menus pass the resource; hover links pass the feature to select
+                graphView.show(typeof featureId === 'string' ? featureId : undefined);
             })
         );
 
@@ -133,8 +252,7 @@ export async function activate(context: vscode.ExtensionContext) {
         context.subscriptions.push(
             vscode.commands.registerCommand('baseline-navigator.quickProjectCheck', async () => {
                 try {
-                    const analyzer = new ProjectAnalyzer(index);
-                    const analysis = await analyzer.analyzeProject();
+                    const analysis = await projectAnalyzer.analyzeProject();
 
                     let message = `Compatibility Score: ${analysis.compatibilityScore}/100\n`;
                     message += `${analysis.riskFeatures.length} risky features found\n`;
@@ -190,6 +308,108 @@ export async function activate(context: vscode.ExtensionContext) {
             })
         );
 
+        context.subscriptions.push(
+            vscode.commands.registerCommand('baseline-navigator.checkWorkspace', async () => {
+                try {
+                    const result = await diagnosticProvider.checkWorkspace();
+                    const scope = configManager.getConfiguration().diagnosticsScope === 'workspace' ? 'workspace' : 'open files';
+                    if (result.problems > 0) {
+                        vscode.commands.executeCommand('workbench.actions.view.problems');
+                        vscode.window.showInformationMessage(`Baseline: ${result.problems} problem(s) in ${result.files} file(s) (${scope})`);
+                    } else {
+                        vscode.window.showInformationMessage(`✅ No Baseline problems found (${scope})`);
+                    }
+                } catch (error) {
+                    const errorMessage = error instanceof Error ? error.message : String(error);
+                    vscode.window.showErrorMessage(`Workspace check failed: ${errorMessage}`);
+                }
+            })
+        );
+
+        context.subscriptions.push(
+            vscode.commands.registerCommand('baseline-navigator.fixAllSafeFallbacks', async () => {
+                const editor = vscode.window.activeTextEditor;
+                let scope: 'file' | 'workspace' | undefined = editor ? 'file' : 'workspace';
+                if (editor && vscode.workspace.workspaceFolders) {
+                    const choice = await vscode.window.showQuickPick([
+                        { label: 'Active File', description: vscode.workspace.asRelativePath(editor.document.uri), scope: 'file' as const },
+                        { label: 'Workspace', description: 'Every file with a fixable usage', scope: 'workspace' as const }
+                    ], { placeHolder: 'Apply safe fallbacks to' });
+                    scope = choice?.scope;
+                }
+                if (!scope) {
+                    return;
+                }
+
+                try {
+                    const documents = scope === 'file' && editor ? [editor.document] : await findFixableDocuments(projectAnalyzer);
+                    const { edit, fixes, files } = codeActionProvider.createFixAllEdit(documents, true);
+                    if (fixes === 0) {
+                        vscode.window.showInformationMessage('✅ No safe fallbacks to apply');
+                        return;
+                    }
+
+                    // Entries need confirmation, so this opens the refactor preview
+                    if (await vscode.workspace.applyEdit(edit, { isRefactoring: true })) {
+                        vscode.window.showInformationMessage(`Baseline: applied ${fixes} fallback(s) in ${files} file(s)`);
+                    }
+                } catch (error) {
+                    const errorMessage = error instanceof Error ? error.message : String(error);
+                    vscode.window.showErrorMessage(`Fixing fallbacks failed: ${errorMessage}`);
+                }
+            })
+        );
+
+        context.subscriptions.push(
+            vscode.commands.registerCommand('baseline-navigator.suppressHere', async (uri: string, line: number, featureId: string) => {
+                const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(uri));
+                const comment = formatSuppression(document.languageId, [featureId]);
+                if (!comment || line >= document.lineCount) {
+                    return;
+                }
+
+                const indent = document.lineAt(line).text.match(/^\s*/)![0];
+                const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+                const edit = new vscode.WorkspaceEdit();
+                edit.insert(document.uri, new vscode.Position(line, 0), `${indent}${comment}${eol}`);
+                await vscode.workspace.applyEdit(edit);
+            })
+        );
+
+        context.subscriptions.push(
+            vscode.commands.registerCommand('baseline-navigator.findUsages', async (patternId: string, label?: string) => {
+                try {
+                    const files = await projectAnalyzer.indexWorkspace();
+                    const usages = files.flatMap(file => file.scan.features
+                        .filter(feature => feature.featureId === patternId)
+                        .map(feature => ({
+                            label: `${vscode.workspace.asRelativePath(file.uri)}:${feature.line + 1}:${feature.column + 1}`,
+                            description: feature.text + (feature.suppressed ? ' (suppressed)' : feature.guard ? ' (guarded)' : ''),
+                            uri: file.uri,
+                            position: new vscode.Position(feature.line, feature.column)
+                        })));
+
+                    if (usages.length === 0) {
+                        vscode.window.showInformationMessage(`No usages of ${label || patternId} in the workspace`);
+                        return;
+                    }
+
+                    const usage = await vscode.window.showQuickPick(usages, {
+                        placeHolder: `${usages.length} usage(s) of ${label || patternId}`,
+                        matchOnDescription: true
+                    });
+                    if (usage) {
+                        await vscode.window.showTextDocument(usage.uri, {
+                            selection: new vscode.Range(usage.position, usage.position)
+                        });
+                    }
+                } catch (error) {
+                    const errorMessage = error instanceof Error ? error.message : String(error);
+                    vscode.window.showErrorMessage(`Finding usages failed: ${errorMessage}`);
+                }
+            })
+        );
+
         context.subscriptions.push(
             vscode.commands.registerCommand('baseline-navigator.showFeatureDetails', (feature) => {
                 const panel = vscode.window.createWebviewPanel(
@@ -235,40 +455,31 @@ export async function activate(context: vscode.ExtensionContext) {
             })
         );
 
-        // Auto-check on save (if enabled)
-        if (config.checkOnSave) {
-            context.subscriptions.push(
-                vscode.workspace.onDidSaveTextDocument(async (document) => {
-                    await diagnosticProvider.updateDiagnostics(document);
-                })
-            );
-        }
-
         // Listen for configuration changes
         configManager.onDidChange((newConfig) => {
 
-            // Refresh diagnostics if active editor
-            if (vscode.window.activeTextEditor) {
+            // Refresh diagnostics if active editor; in manual mode only clear them when disabled
+            if (vscode.window.activeTextEditor && (newConfig.run !== 'manual' || !newConfig.enabled)) {
                 diagnosticProvider.updateDiagnostics(vscode.window.activeTextEditor.document);
             }
         });
 
-        // Check active editor on activation
-        if (vscode.window.activeTextEditor) {
+        // Check active editor on activation; typing, saving and editor switches are
+        // handled by the diagnostic provider
+        if (vscode.window.activeTextEditor && config.run !== 'manual') {
             diagnosticProvider.updateDiagnostics(vscode.window.activeTextEditor.document);
         }
 
         // Status bar item with configuration indicator
         const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
-        statusBarItem.text = `$(telescope) Baseline [${config.riskTolerance}]`;
-        statusBarItem.tooltip = 'Baseline Navigator - Click to explore features';
         statusBarItem.command = 'baseline-navigator.showGraph';
+        updateStatusBar(statusBarItem);
         statusBarItem.show();
         context.subscriptions.push(statusBarItem);
 
         // Update status bar on config change
-        configManager.onDidChange((newConfig) => {
-            statusBarItem.text = `$(telescope) Baseline [${newConfig.riskTolerance}]`;
+        configManager.onDidChange(() => {
+            updateStatusBar(statusBarItem);
         });
 
 
@@ -300,9 +511,26 @@ export function deactivate() {
     }
 }
 
-function getFeatureDetailsHtml(feature: any): string {
+function updateStatusBar(statusBarItem: vscode.StatusBarItem): void {
     const config = configManager.getConfiguration();
-    const targetBrowsers = config.targetBrowsers;
+    const baselineTarget = configManager.getBaselineTarget();
+    const targets = configManager.getBrowserTargets();
+
+    // Keep the label short; the tooltip carries the full target list
+    const targetLabel = baselineTarget
+        ? configManager.describeTarget()
+        : configManager.getTargetSource() === 'settings' ? `${targets.length} browsers`
+        : configManager.getTargetSource() === 'policy' ? 'policy' : 'browserslist';
+
+    statusBarItem.text = `$(telescope) Baseline [${targetLabel} · ${config.riskTolerance}]`;
+    const policy = configManager.getPolicy();
+    statusBarItem.tooltip = `Baseline Navigator - Target: ${configManager.describeTarget()}`
+        + (policy ? `\nPolicy: ${policy.source}` : '')
+        + `\nClick to explore features`;
+}
+
+function getFeatureDetailsHtml(feature: any): string {
+    const targetBrowsers = configManager.getBrowserTargets().map(t => t.browser);
 
     return `<!DOCTYPE html>
     <html>
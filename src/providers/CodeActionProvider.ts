@@ -2,15 +2,29 @@ import * as vscode from 'vscode';
 import { InvertedIndex } from '../core/InvertedIndex';
 import { RecommendationEngine } from '../core/RecommendationEngine';
 import { ConfigurationManager } from '../core/ConfigurationManager';
+import { FeaturePatternRegistry } from '../core/FeaturePatternRegistry';
+import { FallbackFix, FallbackFixOptions, fixAll, getFallbackFixes, hasFallbackFix, supportsFallbackFixes } from '../core/FallbackFixes';
+import { BaselineDiagnosticProvider } from './DiagnosticProvider';
 
 export class BaselineCodeActionProvider implements vscode.CodeActionProvider {
+    // `editor.codeActionsOnSave: { "source.fixAll.baseline": "explicit" }` applies safe fallbacks on save
+    public static readonly fixAllKind = vscode.CodeActionKind.SourceFixAll.append('baseline');
+    public static readonly providedCodeActionKinds = [
+        vscode.CodeActionKind.QuickFix,
+        vscode.CodeActionKind.Empty,
+        BaselineCodeActionProvider.fixAllKind
+    ];
+
     private recommendationEngine: RecommendationEngine;
+    private patternRegistry: FeaturePatternRegistry;
 
     constructor(
         private index: InvertedIndex,
-        private configManager: ConfigurationManager
+        private configManager: ConfigurationManager,
+        private diagnosticProvider: BaselineDiagnosticProvider
     ) {
         this.recommendationEngine = new RecommendationEngine(index);
+        this.patternRegistry = new FeaturePatternRegistry();
     }
 
     async provideCodeActions(
@@ -20,46 +34,58 @@ export class BaselineCodeActionProvider implements vscode.CodeActionProvider {
         token: vscode.CancellationToken
     ): Promise<vscode.CodeAction[]> {
         const config = this.configManager.getConfiguration();
-        
-        if (!config.enabled || !config.enableCodeActions || !config.showRecommendations) {
+
+        if (!config.enabled || !config.enableCodeActions) {
             return [];
         }
-        
-        const actions: vscode.CodeAction[] = [];
+
+        // Requested explicitly, e.g. on save or from the Source Action menu
+        if (context.only?.contains(BaselineCodeActionProvider.fixAllKind)) {
+            const { edit, fixes } = this.createFixAllEdit([document], false);
+            if (fixes === 0) {
+                return [];
+            }
+            const action = new vscode.CodeAction('Fix All Safe Fallbacks', BaselineCodeActionProvider.fixAllKind);
+            action.edit = edit;
+            return [action];
+        }
+
+        const actions: vscode.CodeAction[] = this.getFallbackActions(document, context);
+        if (!config.showRecommendations) {
+            return actions;
+        }
+
         const word = document.getText(range);
-        
+
         // Search for the feature
         const results = await this.index.search(word);
         if (results.length === 0) return actions;
 
         const feature = results[0];
-        
+
         // Get recommendations
         const recommendations = await this.recommendationEngine.getRecommendations({
             currentFeature: feature.id,
             documentLanguage: document.languageId,
-            targetBrowsers: config.targetBrowsers
+            targetBrowsers: this.configManager.getBrowserTargets().map(t => t.browser)
         });
 
-        // Create code actions for top recommendations
+        // Alternatives are different features, not drop-in replacements: show their details
         recommendations
             .slice(0, config.maxRecommendations)
             .filter(rec => rec.confidence > 0.7)
             .forEach(rec => {
                 const action = new vscode.CodeAction(
                     `💡 ${rec.reason}`,
-                    vscode.CodeActionKind.QuickFix
+                    vscode.CodeActionKind.Empty
                 );
-                
-                action.edit = new vscode.WorkspaceEdit();
-                action.edit.replace(document.uri, range, rec.feature.id);
-                
+
                 action.command = {
                     command: 'baseline-navigator.showFeatureDetails',
                     title: 'Show Details',
                     arguments: [rec.feature]
                 };
-                
+
                 actions.push(action);
             });
 
@@ -68,15 +94,115 @@ export class BaselineCodeActionProvider implements vscode.CodeActionProvider {
             '📚 View documentation',
             vscode.CodeActionKind.Empty
         );
-        
+
         docAction.command = {
             command: 'baseline-navigator.openDocumentation',
             title: 'Open Documentation',
             arguments: [feature]
         };
-        
+
         actions.push(docAction);
 
         return actions;
     }
-}
\ No newline at end of file
+
+    /**
+     * One edit applying every safe fallback to the reported usages in the
+     * documents. With `preview`, applying it opens the refactor preview.
+     */
+    public createFixAllEdit(documents: vscode.TextDocument[], preview: boolean): { edit: vscode.WorkspaceEdit; fixes: number; files: number } {
+        const edit = new vscode.WorkspaceEdit();
+        let fixes = 0;
+        let files = 0;
+
+        for (const document of documents.filter(candidate => supportsFallbackFixes(candidate.languageId))) {
+            const result = fixAll(
+                document.getText(),
+                document.languageId,
+                text => this.diagnosticProvider.getReportedMatches(document.uri, text, document.languageId),
+                getFixOptions(document)
+            );
+            if (result.edits.length === 0) {
+                continue;
+            }
+
+            const metadata: vscode.WorkspaceEditEntryMetadata = {
+                label: 'Safe fallbacks',
+                description: Array.from(new Set(result.fixes.map(fix => fix.title))).join(', '),
+                needsConfirmation: preview
+            };
+            result.edits.forEach(({ start, end, newText }) => {
+                edit.replace(document.uri, new vscode.Range(document.positionAt(start), document.positionAt(end)), newText, metadata);
+            });
+            fixes += result.fixes.length;
+            files++;
+        }
+
+        return { edit, fixes, files };
+    }
+
+    /**
+     * Quick fixes rewriting the flagged usages to code with a fallback
+     */
+    private getFallbackActions(document: vscode.TextDocument, context: vscode.CodeActionContext): vscode.CodeAction[] {
+        const diagnostics = context.diagnostics.filter(diagnostic => diagnostic.source === 'Baseline Navigator');
+        if (diagnostics.length === 0 || (context.only && !vscode.CodeActionKind.QuickFix.intersects(context.only))) {
+            return [];
+        }
+
+        const text = document.getText();
+        const matches = this.patternRegistry.findMatches(text, document.languageId)
+            .filter(match => hasFallbackFix(match.featureId, document.languageId));
+        const options = getFixOptions(document);
+
+        const actions: vscode.CodeAction[] = [];
+        for (const diagnostic of diagnostics) {
+            const start = document.offsetAt(diagnostic.range.start);
+            const end = document.offsetAt(diagnostic.range.end);
+
+            matches
+                .filter(match => match.start === start && match.end === end)
+                .flatMap(match => getFallbackFixes(text, document.languageId, match, options))
+                .forEach(fix => {
+                    const action = new vscode.CodeAction(`🛡️ ${fix.title}`, vscode.CodeActionKind.QuickFix);
+                    action.edit = this.createEdit(document, fix);
+                    action.diagnostics = [diagnostic];
+                    action.isPreferred = actions.length === 0;
+                    actions.push(action);
+                });
+        }
+
+        return actions;
+    }
+
+    private createEdit(document: vscode.TextDocument, fix: FallbackFix): vscode.WorkspaceEdit {
+        // The label groups the changes in the refactor preview
+        const metadata: vscode.WorkspaceEditEntryMetadata = {
+            label: fix.title,
+            description: fix.patternId,
+            needsConfirmation: false
+        };
+
+        const edit = new vscode.WorkspaceEdit();
+        fix.edits.forEach(({ start, end, newText }) => {
+            edit.replace(document.uri, new vscode.Range(document.positionAt(start), document.positionAt(end)), newText, metadata);
+        });
+        return edit;
+    }
+}
+
+/**
+ * Indentation and line endings of the document, for fallback rewrites
+ */
+export function getFixOptions(document: vscode.TextDocument): FallbackFixOptions {
+    // The active editor knows the detected indentation of its document
+    const editor = vscode.window.visibleTextEditors.find(candidate => candidate.document === document);
+    const editorConfig = vscode.workspace.getConfiguration('editor', document);
+    const insertSpaces = editor?.options.insertSpaces ?? editorConfig.get('insertSpaces', true);
+    const tabSize = editor?.options.tabSize ?? editorConfig.get('tabSize', 4);
+
+    return {
+        indent: insertSpaces ? ' '.repeat(typeof tabSize === 'number' ? tabSize : 4) : '\t',
+        eol: document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n'
+    };
+}
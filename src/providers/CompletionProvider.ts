@@ -0,0 +1,154 @@
+import * as vscode from 'vscode';
+import { InvertedIndex } from '../core/InvertedIndex';
+import { ConfigurationManager } from '../core/ConfigurationManager';
+import { FeaturePatternRegistry } from '../core/FeaturePatternRegistry';
+import { getCompletionSite, TokenContext } from '../core/TokenResolver';
+import { BaselineStatus, getBaselineStatus } from '../core/CompatibilityEvaluator';
+import { Feature } from '../types';
+
+const STATUS_BADGES: Record<BaselineStatus, string> = {
+    widely: '✅ widely',
+    newly: '🆕 newly',
+    limited: '⚠️ limited',
+    unknown: '❔ unknown'
+};
+
+interface CompletionCandidate {
+    name: string;                         // As inserted, without `@` or `:`
+    label: string;                        // As shown, e.g. `@container`, `::backdrop`, `clamp()`
+    patternId: string;
+    kind: vscode.CompletionItemKind;
+    snippet?: string;                     // Inserted instead of the name
+}
+
+/**
+ * Completions for names that are web platform features, each labelled with
+ * its Baseline status. VS Code keeps the language's own completions; these
+ * come alongside them, and the ones that break the configured targets sort
+ * last.
+ */
+export class BaselineCompletionProvider implements vscode.CompletionItemProvider {
+    public static readonly triggerCharacters = ['@', ':', '.'];
+
+    private patternRegistry = new FeaturePatternRegistry();
+    private candidates: Map<string, CompletionCandidate[]> | undefined;    // By context; values by `value:<property>`
+
+    constructor(
+        private index: InvertedIndex,
+        private configManager: ConfigurationManager
+    ) {}
+
+    provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): vscode.CompletionItem[] {
+        const config = this.configManager.getConfiguration();
+
+        if (!config.enabled || !config.enableCompletions) {
+            return [];
+        }
+
+        const site = getCompletionSite(document.getText(), document.languageId, document.offsetAt(position));
+        if (!site) {
+            return [];
+        }
+
+        const candidates = this.getCandidates();
+        const found = site.context === 'value'
+            ? [...(candidates.get(`value:${site.property}`) || []), ...(candidates.get('function') || [])]
+            : candidates.get(site.context) || [];
+        const range = new vscode.Range(document.positionAt(site.start), position);
+
+        return found.flatMap(candidate => {
+            const feature = this.resolveFeature(candidate.patternId);
+            return feature ? [this.createItem(candidate, feature, range)] : [];
+        });
+    }
+
+    private createItem(candidate: CompletionCandidate, feature: Feature, range: vscode.Range): vscode.CompletionItem {
+        const badge = this.getBadge(feature);
+        const report = this.configManager.evaluateFeature(feature);
+        const breaksTargets = report.compatibility !== 'full';
+
+        const item = new vscode.CompletionItem({ label: candidate.label, description: badge }, candidate.kind);
+        item.detail = `${feature.name || feature.id} (Baseline: ${badge})`;
+        item.range = range;
+        item.filterText = candidate.name;
+        item.insertText = candidate.snippet ? new vscode.SnippetString(candidate.snippet) : candidate.name;
+        // Unsupported by some target: after everything that works
+        item.sortText = `${breaksTargets ? '1' : '0'}${candidate.name}`;
+
+        const md = new vscode.MarkdownString();
+        md.appendMarkdown(`**${feature.name || feature.id}** ${badge}\n\n`);
+        md.appendMarkdown(breaksTargets && report.suggestion
+            ? `⚠️ ${report.suggestion}\n\n`
+            : `🎯 Supported by all target browsers\n\n`);
+        if (feature.description) {
+            md.appendMarkdown(`${feature.description}\n\n`);
+        }
+        if (feature.mdn_url) {
+            md.appendMarkdown(`[MDN documentation](${feature.mdn_url})`);
+        } else if (feature.caniuse) {
+            md.appendMarkdown(`[Can I Use](https://caniuse.com/${feature.caniuse})`);
+        }
+        item.documentation = md;
+
+        if (candidate.kind === vscode.CompletionItemKind.Property) {
+            // Continue with the values
+            item.command = { command: 'editor.action.triggerSuggest', title: 'Suggest values' };
+        }
+        return item;
+    }
+
+    /**
+     * Every name a pattern matcher detects, by where it can be typed. The
+     * first definition to claim a name wins, as in detection.
+     */
+    private getCandidates(): Map<string, CompletionCandidate[]> {
+        if (this.candidates) {
+            return this.candidates;
+        }
+
+        const candidates = new Map<string, CompletionCandidate[]>();
+        const seen = new Set<string>();
+        const add = (key: TokenContext | string, candidate: CompletionCandidate) => {
+            if (seen.has(`${key}|${candidate.label}`)) {
+                return;
+            }
+            seen.add(`${key}|${candidate.label}`);
+            if (!candidates.has(key)) {
+                candidates.set(key, []);
+            }
+            candidates.get(key)!.push(candidate);
+        };
+
+        const { Property, Value, Function, Keyword, Class, Method } = vscode.CompletionItemKind;
+        this.patternRegistry.getAllPatterns().forEach(({ id: patternId, css, js }) => {
+            css?.properties?.forEach(name => add('property', { name, label: name, patternId, kind: Property, snippet: `${name}: ` }));
+            css?.values?.forEach(({ properties, keywords }) => properties.forEach(property => keywords.forEach(name =>
+                add(`value:${property}`, { name, label: name, patternId, kind: Value }))));
+            css?.functions?.forEach(name => add('function', { name, label: `${name}()`, patternId, kind: Function, snippet: `${name}($0)` }));
+            css?.atRules?.forEach(name => add('at-rule', { name, label: `@${name}`, patternId, kind: Keyword }));
+            css?.pseudoClasses?.forEach(name => add('selector', { name, label: `:${name}`, patternId, kind: Keyword }));
+            css?.pseudoElements?.forEach(name => add('selector', { name, label: `::${name}`, patternId, kind: Keyword }));
+            js?.globals?.forEach(name => add('identifier', { name, label: name, patternId, kind: Class }));
+            js?.members?.forEach(member => {
+                const name = member.slice(member.lastIndexOf('.') + 1);
+                add('member', { name, label: name, patternId, kind: Method });
+            });
+        });
+
+        this.candidates = candidates;
+        return candidates;
+    }
+
+    private resolveFeature(patternId: string): Feature | undefined {
+        const resolvedId = this.patternRegistry.resolveFeatureId(patternId);
+        return this.index.getFeature(patternId) || (resolvedId ? this.index.getFeature(resolvedId) : undefined);
+    }
+
+    private getBadge(feature: Feature): string {
+        return STATUS_BADGES[getBaselineStatus(feature)];
+    }
+}
@@ -1,117 +1,449 @@
 import * as vscode from 'vscode';
 import { InvertedIndex } from '../core/InvertedIndex';
-import { FeaturePatternRegistry } from '../core/FeaturePatternRegistry';
+import { FeatureMatch, FeaturePatternRegistry } from '../core/FeaturePatternRegistry';
 import { ConfigurationManager } from '../core/ConfigurationManager';
+import { PolicyRuleAction } from '../core/ProjectPolicy';
+import { InlineSuppressions } from '../core/InlineSuppressions';
+import { IncrementalMatcher } from '../core/IncrementalMatcher';
+import { FileScan, ScannedFeature } from '../core/AnalysisAggregator';
+import { ProjectAnalyzer } from '../core/ProjectAnalyzer';
+import { SOURCE_FILE_GLOB } from '../core/SourceLanguages';
 import { Feature } from '../types';
 
+/**
+ * A detected feature usage, from an open document or the workspace index
+ */
+interface DetectedUsage {
+    featureId: string;                    // Pattern ID
+    range: vscode.Range;
+    guard?: string;
+    compatKey?: string;
+}
+
+/**
+ * A detected feature usage in an open document, for the editor's inline status
+ */
+export interface FeatureUsage {
+    feature: Feature;
+    patternId: string;
+    range: vscode.Range;
+    guard?: string;
+}
+
+// Pause in typing or editor switching before a check runs
+const CHECK_DELAY = 300;
+
+export interface WorkspaceCheckResult {
+    files: number;                        // Files with at least one problem
+    problems: number;
+}
+
 export class BaselineDiagnosticProvider {
     private diagnosticCollection: vscode.DiagnosticCollection;
     private patternRegistry: FeaturePatternRegistry;
+    private workspaceChecked = false;     // Keep the collection in sync once Check Workspace ran
+    private matchers = new Map<string, IncrementalMatcher>();          // Open document uri -> cached matches
+    private pending = new Map<string, ReturnType<typeof setTimeout>>(); // Scheduled checks
+    private disposables: vscode.Disposable[] = [];
+    private usagesChanged = new vscode.EventEmitter<vscode.Uri | undefined>();    // Undefined for every document
+
+    // Fired after a document is checked again
+    public readonly onDidChangeUsages = this.usagesChanged.event;
 
     constructor(
         private index: InvertedIndex,
-        private configManager: ConfigurationManager
+        private configManager: ConfigurationManager,
+        private projectAnalyzer?: ProjectAnalyzer
     ) {
         this.diagnosticCollection = vscode.languages.createDiagnosticCollection('baseline');
         this.patternRegistry = new FeaturePatternRegistry();
+
+        const watcher = vscode.workspace.createFileSystemWatcher(SOURCE_FILE_GLOB);
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(uri => this.syncFile(uri)),
+            watcher.onDidChange(uri => this.syncFile(uri)),
+            watcher.onDidDelete(uri => this.removeFiles(uri)),
+            vscode.window.tabGroups.onDidChangeTabs(event => this.syncTabs(event)),
+            vscode.workspace.onDidChangeTextDocument(event => {
+                const matcher = this.matchers.get(event.document.uri.toString());
+                event.contentChanges.forEach(change => matcher?.applyChange(change.rangeOffset, change.rangeLength, change.text));
+                if (event.contentChanges.length > 0 && this.getRunTrigger() === 'onType') {
+                    this.scheduleUpdate(event.document);
+                }
+            }),
+            vscode.window.onDidChangeActiveTextEditor(editor => {
+                if (editor && this.getRunTrigger() !== 'manual') {
+                    this.scheduleUpdate(editor.document);
+                }
+            }),
+            vscode.workspace.onDidSaveTextDocument(document => {
+                // Block rescans can drift from a full scan over a series of edits
+                this.matchers.get(document.uri.toString())?.reset();
+                if (this.getRunTrigger() !== 'manual') {
+                    this.updateDiagnostics(document);
+                }
+            }),
+            vscode.workspace.onDidCloseTextDocument(document => {
+                this.cancelUpdate(document.uri);
+                this.matchers.delete(document.uri.toString());
+            }),
+            configManager.onDidChange(() => {
+                if (this.workspaceChecked) {
+                    this.checkWorkspace(vscode.ProgressLocation.Window);
+                }
+            })
+        );
     }
 
     public async updateDiagnostics(document: vscode.TextDocument): Promise<void> {
+        this.cancelUpdate(document.uri);
         const config = this.configManager.getConfiguration();
 
         if (!config.enabled) {
             this.diagnosticCollection.clear();
+            this.usagesChanged.fire(undefined);
             return;
         }
 
         if (!this.shouldAnalyze(document)) {
-            this.diagnosticCollection.clear();
+            this.diagnosticCollection.delete(document.uri);
+            this.usagesChanged.fire(document.uri);
             return;
         }
 
-        const diagnostics: vscode.Diagnostic[] = [];
         const text = document.getText();
+        const toRange = createRangeLookup(text);
+        const usages = this.detect(document).map(match => ({
+            featureId: match.featureId,
+            range: toRange(match),
+            guard: match.guard,
+            compatKey: match.compatKey
+        }));
+
+        this.diagnosticCollection.set(document.uri, this.createDiagnostics(document.uri, usages, InlineSuppressions.parse(text)));
+        this.usagesChanged.fire(document.uri);
+    }
+
+    /**
+     * Every feature with Baseline data used in an open document, reported or
+     * not, except usages suppressed inline or ignored by the project policy
+     */
+    public getUsages(document: vscode.TextDocument): FeatureUsage[] {
+        if (!this.configManager.getConfiguration().enabled || !this.shouldAnalyze(document)) {
+            return [];
+        }
+
+        const text = document.getText();
+        const suppressions = InlineSuppressions.parse(text);
+        const toRange = createRangeLookup(text);
+        const usages: FeatureUsage[] = [];
+        for (const match of this.detect(document)) {
+            const feature = this.resolveFeature(match.featureId);
+            if (!feature || this.configManager.getPolicyRule([feature.id, match.featureId], document.uri) === 'ignore') {
+                continue;
+            }
+
+            const range = toRange(match);
+            if (!suppressions.isSuppressed([feature.id, match.featureId], range.start.line)) {
+                usages.push({ feature, patternId: match.featureId, range, guard: match.guard });
+            }
+        }
+        return usages;
+    }
+
+    // Only the blocks edited since the last check are detected again
+    private detect(document: vscode.TextDocument): FeatureMatch[] {
+        const key = document.uri.toString();
+        let matcher = this.matchers.get(key);
+        if (!matcher) {
+            matcher = new IncrementalMatcher(this.patternRegistry, document.languageId);
+            this.matchers.set(key, matcher);
+        }
+        return matcher.getMatches(document.getText());
+    }
 
-        // Use pattern registry to detect features
-        const detectedFeatures = this.patternRegistry.detectFeatures(text, document.languageId);
+    /**
+     * Fill the collection for the configured scope: all open documents, or
+     * every file project analysis covers. Once run, the collection follows
+     * file changes until the extension is disabled.
+     */
+    public async checkWorkspace(location = vscode.ProgressLocation.Notification): Promise<WorkspaceCheckResult> {
+        this.diagnosticCollection.clear();
+        if (!this.configManager.getConfiguration().enabled) {
+            this.workspaceChecked = false;
+            return this.summarize();
+        }
+
+        this.workspaceChecked = true;
+        if (this.getScope() === 'workspace' && this.projectAnalyzer) {
+            const files = await this.projectAnalyzer.indexWorkspace(location);
+            files.forEach(file => this.setFileScan(file.uri, file.scan));
+        }
+
+        // Open documents are reported as edited, not as saved
+        const openDocuments = (await this.getOpenDocuments())
+            .filter(document => this.getScope() === 'openFiles' || document.isDirty);
+        await Promise.all(openDocuments.map(document => this.updateDiagnostics(document)));
+
+        return this.summarize();
+    }
+
+    /**
+     * Check a document once typing or editor switching pauses
+     */
+    private scheduleUpdate(document: vscode.TextDocument): void {
+        this.cancelUpdate(document.uri);
+        this.pending.set(document.uri.toString(), setTimeout(() => {
+            this.pending.delete(document.uri.toString());
+            if (!document.isClosed) {
+                this.updateDiagnostics(document);
+            }
+        }, CHECK_DELAY));
+    }
+
+    private cancelUpdate(uri: vscode.Uri): void {
+        const key = uri.toString();
+        clearTimeout(this.pending.get(key));
+        this.pending.delete(key);
+    }
+
+    private setFileScan(uri: vscode.Uri, scan: FileScan): void {
+        const usages = scan.features
+            .filter(feature => !feature.suppressed)
+            .map(feature => ({
+                featureId: feature.featureId,
+                range: this.getRange(feature),
+                guard: feature.guard,
+                compatKey: feature.compatKey
+            }));
+
+        this.diagnosticCollection.set(uri, this.createDiagnostics(uri, usages));
+    }
 
-        for (const [patternId, matchCount] of detectedFeatures) {
-            // Get feature from index
-            let feature = this.index.getFeature(patternId);
+    private async syncFile(uri: vscode.Uri): Promise<void> {
+        if (!this.workspaceChecked || this.getScope() !== 'workspace' || !this.projectAnalyzer) {
+            return;
+        }
 
-            // Try aliases if not found
-            if (!feature) {
-                const resolvedId = this.patternRegistry.resolveFeatureId(patternId);
-                if (resolvedId) {
-                    feature = this.index.getFeature(resolvedId);
+        // Edited documents follow the editor
+        if (vscode.workspace.textDocuments.some(document => document.isDirty && document.uri.toString() === uri.toString())) {
+            return;
+        }
+
+        const file = await this.projectAnalyzer.updateFile(uri);
+        if (file) {
+            this.setFileScan(uri, file.scan);
+        } else {
+            this.diagnosticCollection.delete(uri);
+        }
+    }
+
+    private async syncTabs(event: vscode.TabChangeEvent): Promise<void> {
+        const openUris = new Set(this.getOpenUris().map(uri => uri.toString()));
+        const closed = this.getTabUris(event.closed).filter(uri => !openUris.has(uri.toString()));
+
+        if (this.getScope() === 'openFiles') {
+            closed.forEach(uri => this.diagnosticCollection.delete(uri));
+            if (this.workspaceChecked) {
+                for (const uri of this.getTabUris(event.opened)) {
+                    const document = await vscode.workspace.openTextDocument(uri).then(undefined, () => undefined);
+                    if (document) {
+                        await this.updateDiagnostics(document);
+                    }
                 }
             }
+        } else {
+            // Unsaved edits may have been discarded: report the files as they are on disk
+            closed.forEach(uri => this.syncFile(uri));
+        }
+    }
+
+    private async getOpenDocuments(): Promise<vscode.TextDocument[]> {
+        const documents = await Promise.all(this.getOpenUris().map(uri =>
+            vscode.workspace.openTextDocument(uri).then(undefined, () => undefined)
+        ));
+        return documents.filter((document): document is vscode.TextDocument => !!document);
+    }
+
+    private getOpenUris(): vscode.Uri[] {
+        const uris = this.getTabUris(vscode.window.tabGroups.all.flatMap(group => group.tabs));
+        return Array.from(new Map(uris.map(uri => [uri.toString(), uri])).values());
+    }
+
+    private getTabUris(tabs: readonly vscode.Tab[]): vscode.Uri[] {
+        return tabs.flatMap(tab => tab.input instanceof vscode.TabInputText ? [tab.input.uri] : []);
+    }
+
+    private removeFiles(uri: vscode.Uri): void {
+        // A deleted folder only reports itself
+        const key = uri.toString();
+        const removed: vscode.Uri[] = [];
+        this.diagnosticCollection.forEach(candidate => {
+            if (candidate.toString() === key || candidate.toString().startsWith(`${key}/`)) {
+                removed.push(candidate);
+            }
+        });
+        removed.forEach(candidate => this.diagnosticCollection.delete(candidate));
+    }
+
+    private createDiagnostics(uri: vscode.Uri, usages: DetectedUsage[], suppressions?: InlineSuppressions): vscode.Diagnostic[] {
+        const diagnostics: vscode.Diagnostic[] = [];
+
+        // Group usages by pattern
+        const usagesByPattern = new Map<string, DetectedUsage[]>();
+        usages.forEach(usage => {
+            const group = usagesByPattern.get(usage.featureId) || [];
+            group.push(usage);
+            usagesByPattern.set(usage.featureId, group);
+        });
+
+        for (const [patternId, group] of usagesByPattern) {
+            const report = this.getReport(uri, patternId);
+            if (!report) {
+                continue;
+            }
 
-            if (feature && this.shouldWarn(feature)) {
-                // Find actual match positions
-                const pattern = this.patternRegistry.getPattern(patternId);
-                if (pattern) {
-                    pattern.patterns.forEach(regex => {
-                        const matches = Array.from(text.matchAll(regex));
-                        matches.forEach(match => {
-                            const startPos = document.positionAt(match.index!);
-                            const endPos = document.positionAt(match.index! + match[0].length);
-                            const range = new vscode.Range(startPos, endPos);
-
-                            const diagnostic = this.createDiagnostic(range, feature!);
-                            diagnostics.push(diagnostic);
-                        });
-                    });
+            group.forEach(usage => {
+                if (suppressions?.isSuppressed([report.feature.id, patternId], usage.range.start.line)) {
+                    return;
                 }
+                diagnostics.push(this.createDiagnostic(usage.range, report.feature, report.rule, usage));
+            });
+        }
+
+        return diagnostics;
+    }
+
+    /**
+     * The usages in a version of a file that would be reported, e.g. for
+     * fixes to act on
+     */
+    public getReportedMatches(uri: vscode.Uri, text: string, languageId: string): FeatureMatch[] {
+        const suppressions = InlineSuppressions.parse(text);
+        const toRange = createRangeLookup(text);
+
+        const reports = new Map<string, ReturnType<BaselineDiagnosticProvider['getReport']>>();
+        return this.patternRegistry.findMatches(text, languageId).filter(match => {
+            if (!reports.has(match.featureId)) {
+                reports.set(match.featureId, this.getReport(uri, match.featureId));
             }
+            const report = reports.get(match.featureId);
+            return !!report && !suppressions.isSuppressed([report.feature.id, match.featureId], toRange(match).start.line);
+        });
+    }
+
+    /**
+     * The feature a pattern reports and the policy rule forcing it, or
+     * undefined when usages of the pattern are not reported
+     */
+    private getReport(uri: vscode.Uri, patternId: string): { feature: Feature; rule?: PolicyRuleAction } | undefined {
+        const feature = this.resolveFeature(patternId);
+        if (!feature) {
+            return undefined;
+        }
+
+        // Project policy: allow/ignore silence the feature, severities force it
+        const rule = this.configManager.getPolicyRule([feature.id, patternId], uri);
+        if (rule === 'allow' || rule === 'ignore') {
+            return undefined;
         }
 
-        this.diagnosticCollection.set(document.uri, diagnostics);
+        return rule || this.configManager.shouldWarnForFeature(feature) ? { feature, rule } : undefined;
     }
 
-    private shouldAnalyze(document: vscode.TextDocument): boolean {
-        const supportedLanguages = ['css', 'scss', 'less', 'sass', 'stylus', 'javascript', 'typescript', 'javascriptreact', 'typescriptreact'];
-        return supportedLanguages.includes(document.languageId);
+    private resolveFeature(patternId: string): Feature | undefined {
+        // Get feature from index, or through aliases
+        const resolvedId = this.patternRegistry.resolveFeatureId(patternId);
+        return this.index.getFeature(patternId) || (resolvedId ? this.index.getFeature(resolvedId) : undefined);
     }
 
-    private shouldWarn(feature: Feature): boolean {
-        const baseline = feature.status?.baseline;
-        return baseline === 'limited' || baseline === false || baseline === 'newly';
+    private getRange(feature: ScannedFeature): vscode.Range {
+        const lines = feature.text.split('\n');
+        const endLine = feature.line + lines.length - 1;
+        const endColumn = lines.length > 1 ? lines[lines.length - 1].length : feature.column + feature.text.length;
+        return new vscode.Range(feature.line, feature.column, endLine, endColumn);
+    }
+
+    private summarize(): WorkspaceCheckResult {
+        const result: WorkspaceCheckResult = { files: 0, problems: 0 };
+        this.diagnosticCollection.forEach((_, diagnostics) => {
+            if (diagnostics.length > 0) {
+                result.files++;
+                result.problems += diagnostics.length;
+            }
+        });
+        return result;
     }
 
-    private createDiagnostic(range: vscode.Range, feature: Feature): vscode.Diagnostic {
+    private getScope() {
+        return this.configManager.getConfiguration().diagnosticsScope;
+    }
+
+    private getRunTrigger() {
+        return this.configManager.getConfiguration().run;
+    }
+
+    private shouldAnalyze(document: vscode.TextDocument): boolean {
+        const supportedLanguages = ['css', 'scss', 'less', 'sass', 'stylus', 'javascript', 'typescript', 'javascriptreact', 'typescriptreact', 'html', 'vue', 'svelte'];
+        return supportedLanguages.includes(document.languageId);
+    }
+
+    private createDiagnostic(range: vscode.Range, feature: Feature, rule?: PolicyRuleAction, match?: DetectedUsage): vscode.Diagnostic {
         const baseline = feature.status?.baseline;
+        const report = this.configManager.evaluateFeature(feature);
+        const guard = match?.guard;
+        const name = feature.name || feature.id;
+        // Name the exact sub-feature, e.g. "Subgrid" (css.properties.grid-template-columns.subgrid)
+        const subject = match?.compatKey ? `"${name}" (${match.compatKey})` : `"${name}"`;
         let message = '';
         let baselineString: string;
 
         // FIX: Convert baseline to string for comparison
-        if (baseline === false) {
-            baselineString = 'limited';
-            message = `⚠️ "${feature.name}" has limited browser support`;
-        } else if (baseline === 'limited') {
+        if (baseline === false || baseline === 'limited' || report.compatibility === 'none') {
             baselineString = 'limited';
-            message = `⚠️ "${feature.name}" has limited browser support`;
-        } else if (baseline === 'newly') {
+        } else if (baseline === 'newly' || baseline === 'low') {
+            baselineString = 'newly';
+        } else if (baseline === 'widely' || baseline === 'high') {
+            // Widely available but still older than some configured target
             baselineString = 'newly';
-            message = `ℹ️ "${feature.name}" is newly available (may not work in older browsers)`;
         } else {
             baselineString = 'unknown';
-            message = `❓ "${feature.name}" has unknown support status`;
         }
 
-        const severity = this.configManager.getDiagnosticSeverity(baselineString);
+        if (guard && !rule) {
+            message = `🛡️ ${subject} is guarded by \`${guard}\`; browsers without support skip it`;
+        } else if (report.compatibility === 'none') {
+            message = `⚠️ ${subject} is not supported by your target browsers`;
+        } else if (report.missingBrowsers.length > 0) {
+            message = `⚠️ ${subject} is not supported in ${report.missingBrowsers.join(', ')} at your minimum versions`;
+        } else if (rule && report.compatibility === 'full') {
+            message = `📋 ${subject} is flagged by the project Baseline policy`;
+        } else if (baselineString === 'newly') {
+            message = `ℹ️ ${subject} is newly available (may not work in older browsers)`;
+        } else {
+            message = `❓ ${subject} has unknown support status`;
+        }
+
+        // Guarded usages are progressive enhancement: informational only
+        const configuredSeverity = this.configManager.getDiagnosticSeverity(baselineString);
+        const severity = rule ? this.getPolicySeverity(rule)
+            : guard ? Math.max(configuredSeverity, vscode.DiagnosticSeverity.Information)
+            : configuredSeverity;
         const diagnostic = new vscode.Diagnostic(range, message, severity);
         diagnostic.code = feature.id;
         diagnostic.source = 'Baseline Navigator';
 
         // Add browser support details
         if (feature.status?.support) {
-            const config = this.configManager.getConfiguration();
-            const targetBrowsers = config.targetBrowsers;
+            const targets = this.configManager.getBrowserTargets();
 
-            const supportInfo = Object.entries(feature.status.support)
-                .filter(([browser]) => targetBrowsers.includes(browser))
-                .map(([browser, version]) => `${browser}: ${version}+`)
+            const supportInfo = targets
+                .filter(target => feature.status!.support![target.browser])
+                .map(target => {
+                    const icon = report.missingBrowsers.includes(target.browser) ? '✗' : '✓';
+                    return `${icon} ${target.browser} ${target.version}+ (supported since ${feature.status!.support![target.browser]})`;
+                })
                 .join(', ');
 
             diagnostic.relatedInformation = [
@@ -125,7 +457,49 @@ export class BaselineDiagnosticProvider {
         return diagnostic;
     }
 
+    private getPolicySeverity(rule: PolicyRuleAction): vscode.DiagnosticSeverity {
+        switch (rule) {
+            case 'error':
+                return vscode.DiagnosticSeverity.Error;
+            case 'warning':
+                return vscode.DiagnosticSeverity.Warning;
+            case 'hint':
+                return vscode.DiagnosticSeverity.Hint;
+            default:
+                return vscode.DiagnosticSeverity.Information;
+        }
+    }
+
     public dispose() {
+        this.pending.forEach(timer => clearTimeout(timer));
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.usagesChanged.dispose();
         this.diagnosticCollection.dispose();
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Ranges of matches in a text, which need not be an open document's
+ */
+function createRangeLookup(text: string): (match: FeatureMatch) => vscode.Range {
+    const lineStarts = [0];
+    for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+        lineStarts.push(i + 1);
+    }
+
+    const positionAt = (offset: number) => {
+        let low = 0;
+        let high = lineStarts.length - 1;
+        while (low < high) {
+            const middle = Math.ceil((low + high) / 2);
+            if (lineStarts[middle] <= offset) {
+                low = middle;
+            } else {
+                high = middle - 1;
+            }
+        }
+        return new vscode.Position(low, offset - lineStarts[low]);
+    };
+
+    return match => new vscode.Range(positionAt(match.start), positionAt(match.end));
+}
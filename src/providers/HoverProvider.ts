@@ -1,21 +1,32 @@
 import * as vscode from 'vscode';
 import { InvertedIndex } from '../core/InvertedIndex';
 import { ConfigurationManager } from '../core/ConfigurationManager';
+import { FeaturePatternRegistry } from '../core/FeaturePatternRegistry';
+import { RecommendationEngine } from '../core/RecommendationEngine';
+import { compareVersions, getWidelyAvailableDate, hasSupportData } from '../core/CompatibilityEvaluator';
+import { getFallbackFixes, getFixPreview } from '../core/FallbackFixes';
+import { formatSuppression } from '../core/InlineSuppressions';
+import { ResolvedToken, resolveToken } from '../core/TokenResolver';
+import { getFixOptions } from './CodeActionProvider';
 import { Feature } from '../types';
 
 export class BaselineHoverProvider implements vscode.HoverProvider {
-    private cache = new Map<string, vscode.Hover>();
+    private cache = new Map<string, string>();      // Feature sections by feature ID and sub-feature
     private cacheTimeout: number;
+    private patternRegistry = new FeaturePatternRegistry();
+    private recommendationEngine: RecommendationEngine;
 
     constructor(
         private index: InvertedIndex,
         private configManager: ConfigurationManager
     ) {
         this.cacheTimeout = configManager.getConfiguration().cacheTimeout;
+        this.recommendationEngine = new RecommendationEngine(index);
         
         // Update cache timeout on config change
         configManager.onDidChange((config) => {
             this.cacheTimeout = config.cacheTimeout;
+            this.cache.clear(); // Targets may have changed
         });
     }
 
@@ -29,43 +40,90 @@ export class BaselineHoverProvider implements vscode.HoverProvider {
         if (!config.enabled || !config.enableHoverInfo) {
             return undefined;
         }
-        
-        const range = document.getWordRangeAtPosition(position);
-        if (!range) return;
 
-        const word = document.getText(range);
-        const cacheKey = `${document.uri.toString()}_${word}_${position.line}`;
+        // Resolve by syntactic role: a property, value, at-rule, selector or identifier
+        const text = document.getText();
+        const resolved = resolveToken(this.patternRegistry, text, document.languageId, document.offsetAt(position));
+        if (!resolved) {
+            return undefined;
+        }
+        const range = new vscode.Range(document.positionAt(resolved.start), document.positionAt(resolved.end));
 
-        // Check cache
-        if (this.cache.has(cacheKey)) {
-            return this.cache.get(cacheKey);
+        const match = resolved.match;
+        const feature = match && this.resolveFeature(match.featureId);
+        if (!match || !feature) {
+            return new vscode.Hover(this.formatNoData(resolved), range);
         }
 
-        // Search for feature
-        const results = await this.index.search(word);
-        if (results.length === 0) return;
+        // The feature section depends only on the feature and sub-feature, not on where it is used
+        const cacheKey = match.compatKey ? `${feature.id}:${match.compatKey}` : feature.id;
+        let info = this.cache.get(cacheKey);
+        if (info === undefined) {
+            info = await this.formatFeatureInfo(feature, document.languageId, match.compatKey);
+            this.cache.set(cacheKey, info);
+            setTimeout(() => this.cache.delete(cacheKey), this.cacheTimeout);
+        }
 
-        const feature = results[0];
-        const hover = new vscode.Hover(this.formatFeatureInfo(feature), range);
-        
-        // Cache result
-        this.cache.set(cacheKey, hover);
-        setTimeout(() => this.cache.delete(cacheKey), this.cacheTimeout);
+        const md = new vscode.MarkdownString(info);
+        md.isTrusted = true;
+        md.supportHtml = true;
 
-        return hover;
+        // Fallback for this usage, ready to copy
+        const [fix] = getFallbackFixes(text, document.languageId, match, { ...getFixOptions(document), eol: '\n' })
+            .sort((a, b) => Number(b.safe) - Number(a.safe));
+        if (fix) {
+            md.appendMarkdown(`**Fallback:** ${fix.title}\n\n`);
+            md.appendCodeblock(getFixPreview(text, fix), document.languageId);
+            md.appendMarkdown(`\n`);
+        }
+
+        this.appendLinks(md, feature);
+
+        // Actions on this usage
+        const actions: string[] = [];
+        if (formatSuppression(document.languageId, [feature.id])) {
+            actions.push(this.commandLink('$(eye-closed) Suppress here', 'baseline-navigator.suppressHere',
+                [document.uri.toString(), range.start.line, feature.id]));
+        }
+        actions.push(this.commandLink('$(graph) Show in Feature Explorer', 'baseline-navigator.showGraph', [feature.id]));
+        actions.push(this.commandLink('$(references) Find usages in workspace', 'baseline-navigator.findUsages',
+            [match.featureId, feature.name || feature.id]));
+        actions.push(this.commandLink('$(search) Find Similar', 'baseline-navigator.findSimilar', [feature.id]));
+        md.appendMarkdown(`---\n`);
+        md.appendMarkdown(actions.join(' • '));
+
+        return new vscode.Hover(md, range);
+    }
+
+    private resolveFeature(patternId: string): Feature | undefined {
+        const resolvedId = this.patternRegistry.resolveFeatureId(patternId);
+        return this.index.getFeature(patternId) || (resolvedId ? this.index.getFeature(resolvedId) : undefined);
     }
 
-    private formatFeatureInfo(feature: Feature): vscode.MarkdownString {
+    private formatNoData(resolved: ResolvedToken): vscode.MarkdownString {
         const md = new vscode.MarkdownString();
-        md.isTrusted = true;
-        md.supportHtml = true;
+        md.appendMarkdown(`**\`${resolved.name}\`** (${resolved.context}): no Baseline data\n\n`);
+        md.appendMarkdown(`Not a web platform feature tracked by web-features, or not recognized here.`);
+        return md;
+    }
 
+    private async formatFeatureInfo(feature: Feature, languageId: string, compatKey?: string): Promise<string> {
+        const md = new vscode.MarkdownString();
         const status = this.getStatusInfo(feature);
-        const config = this.configManager.getConfiguration();
-        const targetBrowsers = config.targetBrowsers;
         
         md.appendMarkdown(`## ${status.icon} ${feature.name || feature.id}\n\n`);
         md.appendMarkdown(`**Status:** ${status.label} ${status.badge}\n\n`);
+        if (compatKey) {
+            md.appendMarkdown(`**Sub-feature:** \`${compatKey}\`\n\n`);
+        }
+
+        // Verdict for the configured browser targets
+        const report = this.configManager.evaluateFeature(feature);
+        if (report.compatibility === 'full') {
+            md.appendMarkdown(`🎯 **Your targets:** Supported by all target browsers\n\n`);
+        } else if (report.suggestion) {
+            md.appendMarkdown(`🎯 **Your targets:** ${report.suggestion}\n\n`);
+        }
 
         if (feature.description_html) {
             md.appendMarkdown(`${feature.description_html}\n\n`);
@@ -73,30 +131,53 @@ export class BaselineHoverProvider implements vscode.HoverProvider {
             md.appendMarkdown(`${feature.description}\n\n`);
         }
 
-        // Browser support table (filtered by target browsers)
-        if (feature.status?.support) {
+        // Pass or fail per target browser
+        const support = feature.status?.support;
+        if (support) {
             md.appendMarkdown(`### Browser Support (Your Targets)\n\n`);
-            md.appendMarkdown(`| Browser | Version |\n`);
-            md.appendMarkdown(`|---------|--------|\n`);
+            md.appendMarkdown(`| Browser | Target | Supported since | |\n`);
+            md.appendMarkdown(`|---------|--------|-----------------|---|\n`);
             
-            Object.entries(feature.status.support)
-                .filter(([browser]) => targetBrowsers.includes(browser))
-                .forEach(([browser, version]) => {
-                    const icon = this.getBrowserIcon(browser);
-                    md.appendMarkdown(`| ${icon} ${browser} | ${version}+ |\n`);
-                });
+            this.configManager.getBrowserTargets().forEach(target => {
+                const icon = this.getBrowserIcon(target.browser);
+                if (!hasSupportData(target.browser)) {
+                    md.appendMarkdown(`| ${icon} ${target.browser} | ${target.version || 'any'} | no data | ❔ |\n`);
+                    return;
+                }
+                const since = support[target.browser];
+                const passes = since !== undefined && compareVersions(since, target.version || '0') <= 0;
+                md.appendMarkdown(`| ${icon} ${target.browser} | ${target.version || 'any'} | ${since ? `${since}+` : 'not supported'} | ${passes ? '✅ Pass' : '❌ Fail'} |\n`);
+            });
             md.appendMarkdown(`\n`);
         }
 
-        // Baseline dates
+        // Baseline dates; newly available features become widely available 30 months later
         if (feature.status?.baseline_low_date) {
             md.appendMarkdown(`📅 **Newly available since:** ${feature.status.baseline_low_date}\n\n`);
         }
         if (feature.status?.baseline_high_date) {
             md.appendMarkdown(`✅ **Widely available since:** ${feature.status.baseline_high_date}\n\n`);
+        } else {
+            const widelyDate = getWidelyAvailableDate(feature);
+            if (widelyDate) {
+                md.appendMarkdown(`⏳ **Projected widely available:** ${widelyDate.toISOString().slice(0, 10)}\n\n`);
+            }
         }
 
-        // Links
+        // Top recommendation, with the same threshold as the code actions
+        const [recommendation] = (await this.recommendationEngine.getRecommendations({
+            currentFeature: feature.id,
+            documentLanguage: languageId,
+            targetBrowsers: this.configManager.getBrowserTargets().map(t => t.browser)
+        })).filter(rec => rec.confidence > 0.7);
+        if (recommendation) {
+            md.appendMarkdown(`💡 **Consider ${recommendation.feature.name || recommendation.feature.id}:** ${recommendation.reason}\n\n`);
+        }
+
+        return md.value;
+    }
+
+    private appendLinks(md: vscode.MarkdownString, feature: Feature): void {
         const links: string[] = [];
         if (feature.mdn_url) {
             links.push(`[MDN](${feature.mdn_url})`);
@@ -113,14 +194,10 @@ export class BaselineHoverProvider implements vscode.HoverProvider {
         if (links.length > 0) {
             md.appendMarkdown(`**Resources:** ${links.join(' • ')}\n\n`);
         }
+    }
 
-        // Quick actions
-        md.appendMarkdown(`---\n`);
-        md.appendMarkdown(`[$(graph) View in Graph](command:baseline-navigator.showGraph) • `);
-        md.appendMarkdown(`[$(search) Find Similar](command:baseline-navigator.findSimilar?${encodeURIComponent(JSON.stringify(feature.id))}) • `);
-        md.appendMarkdown(`[$(report) Check Compatibility](command:baseline-navigator.checkCompatibility)`);
-
-        return md;
+    private commandLink(label: string, command: string, args: unknown[]): string {
+        return `[${label}](command:${command}?${encodeURIComponent(JSON.stringify(args))})`;
     }
 
     private getStatusInfo(feature: Feature): { icon: string; label: string; badge: string } {
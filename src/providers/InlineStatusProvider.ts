@@ -0,0 +1,148 @@
+import * as vscode from 'vscode';
+import { ConfigurationManager } from '../core/ConfigurationManager';
+import { BaselineStatus, getBaselineStatus } from '../core/CompatibilityEvaluator';
+import { findCodeBlocks, findInnermostBlock } from '../core/CodeBlocks';
+import { BaselineDiagnosticProvider, FeatureUsage } from './DiagnosticProvider';
+
+const STATUS_ICONS: Record<BaselineStatus, string> = {
+    widely: '✅',
+    newly: '🆕',
+    limited: '⚠️',
+    unknown: '❔'
+};
+
+const STATUS_LABELS: Record<BaselineStatus, string> = {
+    widely: 'widely available',
+    newly: 'newly available',
+    limited: 'limited availability',
+    unknown: 'unknown status'
+};
+
+// Order of the counts in a CodeLens summary
+const SUMMARY_STATUSES: BaselineStatus[] = ['newly', 'limited', 'unknown'];
+
+/**
+ * Baseline status in the editor without hovering: inlay hints naming the
+ * features used on a line, and a CodeLens above each CSS rule and JS
+ * function counting the ones that are not widely available. Both show the
+ * usages the diagnostics are computed from.
+ */
+export class BaselineInlineStatusProvider implements vscode.InlayHintsProvider, vscode.CodeLensProvider {
+    private inlayHintsChanged = new vscode.EventEmitter<void>();
+    private codeLensesChanged = new vscode.EventEmitter<void>();
+    private disposables: vscode.Disposable[] = [];
+
+    public readonly onDidChangeInlayHints = this.inlayHintsChanged.event;
+    public readonly onDidChangeCodeLenses = this.codeLensesChanged.event;
+
+    constructor(
+        private configManager: ConfigurationManager,
+        private diagnosticProvider: BaselineDiagnosticProvider
+    ) {
+        // Policy and target changes can change which usages are shown
+        const refresh = () => {
+            this.inlayHintsChanged.fire();
+            this.codeLensesChanged.fire();
+        };
+        this.disposables.push(
+            diagnosticProvider.onDidChangeUsages(refresh),
+            configManager.onDidChange(refresh)
+        );
+    }
+
+    provideInlayHints(document: vscode.TextDocument, range: vscode.Range, token: vscode.CancellationToken): vscode.InlayHint[] {
+        const mode = this.configManager.getConfiguration().inlayHints;
+        if (mode === 'off') {
+            return [];
+        }
+
+        // One hint per line, naming each feature once
+        const lines = new Map<number, Map<string, FeatureUsage>>();
+        this.diagnosticProvider.getUsages(document)
+            .filter(usage => range.contains(usage.range.start))
+            .filter(usage => mode === 'all' || getBaselineStatus(usage.feature) !== 'widely')
+            .forEach(usage => {
+                const line = lines.get(usage.range.start.line) || new Map<string, FeatureUsage>();
+                if (!line.has(usage.feature.id)) {
+                    line.set(usage.feature.id, usage);
+                }
+                lines.set(usage.range.start.line, line);
+            });
+
+        return Array.from(lines, ([line, usages]) => {
+            const parts = Array.from(usages.values()).flatMap((usage, i) => {
+                const part = new vscode.InlayHintLabelPart(`${STATUS_ICONS[getBaselineStatus(usage.feature)]} ${usage.feature.name || usage.feature.id}`);
+                part.tooltip = this.formatTooltip(usage);
+                part.command = { command: 'baseline-navigator.showGraph', title: 'Show in Feature Explorer', arguments: [usage.feature.id] };
+                return i === 0 ? [part] : [new vscode.InlayHintLabelPart(' · '), part];
+            });
+
+            const hint = new vscode.InlayHint(document.lineAt(line).range.end, parts);
+            hint.paddingLeft = true;
+            return hint;
+        });
+    }
+
+    provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken): vscode.CodeLens[] {
+        if (!this.configManager.getConfiguration().codeLens) {
+            return [];
+        }
+
+        const usages = this.diagnosticProvider.getUsages(document)
+            .filter(usage => getBaselineStatus(usage.feature) !== 'widely');
+        if (usages.length === 0) {
+            return [];
+        }
+
+        // Each usage counts for its innermost rule or function, each feature once
+        const blocks = findCodeBlocks(document.getText(), document.languageId);
+        const features = new Map<number, Map<string, FeatureUsage>>();
+        usages.forEach(usage => {
+            const block = findInnermostBlock(blocks, document.offsetAt(usage.range.start));
+            if (!block) {
+                return;
+            }
+            const blockFeatures = features.get(block.start) || new Map<string, FeatureUsage>();
+            blockFeatures.set(usage.feature.id, usage);
+            features.set(block.start, blockFeatures);
+        });
+
+        return Array.from(features, ([start, blockFeatures]) => {
+            const statuses = Array.from(blockFeatures.values(), usage => getBaselineStatus(usage.feature));
+            const counts = SUMMARY_STATUSES
+                .map(status => ({ status, count: statuses.filter(candidate => candidate === status).length }))
+                .filter(({ count }) => count > 0)
+                .map(({ status, count }) => `${count} ${status}`);
+
+            const position = document.positionAt(start);
+            return new vscode.CodeLens(new vscode.Range(position, position), {
+                command: 'workbench.actions.view.problems',
+                title: `Baseline: ${counts.join(', ')}`,
+                tooltip: Array.from(blockFeatures.values(), usage =>
+                    `${STATUS_ICONS[getBaselineStatus(usage.feature)]} ${usage.feature.name || usage.feature.id}`).join('\n')
+            });
+        });
+    }
+
+    private formatTooltip(usage: FeatureUsage): vscode.MarkdownString {
+        const status = getBaselineStatus(usage.feature);
+        const report = this.configManager.evaluateFeature(usage.feature);
+
+        const md = new vscode.MarkdownString();
+        md.appendMarkdown(`**${usage.feature.name || usage.feature.id}**: ${STATUS_ICONS[status]} ${STATUS_LABELS[status]}\n\n`);
+        md.appendMarkdown(report.compatibility === 'full' || !report.suggestion
+            ? `🎯 Supported by all target browsers\n\n`
+            : `⚠️ ${report.suggestion}\n\n`);
+        if (usage.guard) {
+            md.appendMarkdown(`🛡️ Guarded by \`${usage.guard}\`\n\n`);
+        }
+        md.appendMarkdown(`Click to show in the Feature Explorer`);
+        return md;
+    }
+
+    public dispose() {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.inlayHintsChanged.dispose();
+        this.codeLensesChanged.dispose();
+    }
+}
@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { FeaturePatternRegistry } from '../core/FeaturePatternRegistry';
+
+const registry = new FeaturePatternRegistry();
+
+// Guard condition of each match of `featureId`
+const guardsOf = (text: string, languageId: string, featureId: string) =>
+    registry.findMatches(text, languageId)
+        .filter(match => match.featureId === featureId)
+        .map(match => match.guard);
+
+suite('FeatureGuards', () => {
+    test('script guards test exact global names', () => {
+        assert.deepStrictEqual(guardsOf("if ('IntersectionObserver' in window) { new IntersectionObserver(cb); }", 'javascript', 'intersection-observer'),
+            ["if ('IntersectionObserver' in window)"]);
+        assert.deepStrictEqual(guardsOf("if (typeof window.IntersectionObserver === 'function' && ready) { new IntersectionObserver(cb); }", 'javascript', 'intersection-observer'),
+            // The check itself counts as guarded
+            ["if (typeof window.IntersectionObserver === 'function' && ready)", "if (typeof window.IntersectionObserver === 'function' && ready)"]);
+        assert.deepStrictEqual(guardsOf("if ('Intersection' in window) { new IntersectionObserver(cb); }", 'javascript', 'intersection-observer'),
+            [undefined]);
+    });
+
+    test('negated checks and the else branch are not guarded', () => {
+        assert.deepStrictEqual(guardsOf("if (!('IntersectionObserver' in window)) { new IntersectionObserver(cb); }", 'javascript', 'intersection-observer'),
+            [undefined]);
+        assert.deepStrictEqual(guardsOf("if (window.IntersectionObserver) { observe(); } else { new IntersectionObserver(cb); }", 'javascript', 'intersection-observer'),
+            ['if (window.IntersectionObserver)', undefined]);
+    });
+
+    test('comments and strings never guard', () => {
+        assert.deepStrictEqual(guardsOf("// if ('IntersectionObserver' in window) {\nnew IntersectionObserver(cb);", 'javascript', 'intersection-observer'),
+            [undefined]);
+        assert.deepStrictEqual(guardsOf("const hint = \"if ('IntersectionObserver' in window) {\"; new IntersectionObserver(cb);", 'javascript', 'intersection-observer'),
+            [undefined]);
+        assert.deepStrictEqual(guardsOf('/* @supports (container-type: inline-size) { */ .card { container-type: inline-size; }', 'css', 'container-queries'),
+            [undefined]);
+    });
+
+    test('@supports blocks guard the features of their condition', () => {
+        assert.deepStrictEqual(guardsOf('@supports (container-type: inline-size) { .card { container-type: inline-size; } }', 'css', 'container-queries'),
+            ['@supports (container-type: inline-size)', '@supports (container-type: inline-size)']);
+        assert.deepStrictEqual(guardsOf('@supports not (container-type: inline-size) { .card { container-type: inline-size; } }', 'css', 'container-queries'),
+            [undefined, undefined]);
+    });
+
+    test('markup has the guards of its style and script blocks', () => {
+        const html = "<script>if ('IntersectionObserver' in window) { new IntersectionObserver(cb); }</script>";
+        assert.deepStrictEqual(guardsOf(html, 'html', 'intersection-observer'), ["if ('IntersectionObserver' in window)"]);
+    });
+});
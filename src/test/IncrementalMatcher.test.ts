@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { FeaturePatternRegistry } from '../core/FeaturePatternRegistry';
+import { IncrementalMatcher } from '../core/IncrementalMatcher';
+
+const registry = new FeaturePatternRegistry();
+
+const summarize = (text: string, matcher: IncrementalMatcher) =>
+    matcher.getMatches(text).map(match => `${match.featureId}@${match.start}`);
+
+// Apply an edit to both the text and the matcher
+const edit = (text: string, matcher: IncrementalMatcher, offset: number, length: number, insert: string) => {
+    matcher.applyChange(offset, length, insert);
+    return text.slice(0, offset) + insert + text.slice(offset + length);
+};
+
+suite('IncrementalMatcher', () => {
+    const source = [
+        '.card {',
+        '    container-type: inline-size;',
+        '}',
+        '',
+        '.list {',
+        '    display: grid;',
+        '}',
+        '',
+        '.dialog {',
+        '    translate: 10px;',
+        '}',
+        ''
+    ].join('\n');
+
+    test('matches a full scan after an edit opens a comment and a later one closes it', () => {
+        const matcher = new IncrementalMatcher(registry, 'css');
+        let text = source;
+        summarize(text, matcher);
+
+        text = edit(text, matcher, text.indexOf('.list'), 0, '/* ');
+        summarize(text, matcher);
+        text = edit(text, matcher, text.indexOf('.dialog'), 0, '*/ ');
+        const incremental = summarize(text, matcher);
+
+        const full = summarize(text, new IncrementalMatcher(registry, 'css'));
+        assert.deepStrictEqual(incremental, full);
+        assert.ok(!full.some(match => match.startsWith('grid')));
+    });
+
+    test('reset starts over from a full scan', () => {
+        const matcher = new IncrementalMatcher(registry, 'css');
+        let text = source;
+        summarize(text, matcher);
+        text = edit(text, matcher, text.indexOf('.list'), 0, '/* ');
+
+        matcher.reset();
+        assert.deepStrictEqual(summarize(text, matcher), summarize(text, new IncrementalMatcher(registry, 'css')));
+    });
+});
@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { JsFeatureDetector } from '../core/detectors/JsFeatureDetector';
+import { FeaturePatternRegistry } from '../core/FeaturePatternRegistry';
+
+const detector = new JsFeatureDetector([
+    { id: 'check-visibility', js: { members: ['Element.checkVisibility'] } },
+    { id: 'view-transitions', js: { members: ['Document.startViewTransition'] } },
+    { id: 'webusb', js: { members: ['USBDevice.configuration'] } },
+    { id: 'dialog-closedby', js: { members: ['HTMLDialogElement.requestClose'] } }
+]);
+
+const detect = (text: string, languageId = 'typescript') =>
+    detector.detect(text, languageId).map(match => `${match.featureId} ${match.matcher}`);
+
+suite('JsFeatureDetector', () => {
+    test('detects el.checkVisibility() on receivers typed as elements', () => {
+        assert.deepStrictEqual(detect('function isShown(el: Element) { return el.checkVisibility(); }'),
+            ['check-visibility js-member:Element.checkVisibility']);
+        assert.deepStrictEqual(detect('const el = document.querySelector(".card");\nel.checkVisibility();', 'javascript'),
+            ['check-visibility js-member:Element.checkVisibility']);
+        // Inherited from Element
+        assert.deepStrictEqual(detect('const dialog: HTMLDialogElement = get(); dialog.checkVisibility(); dialog.requestClose();'),
+            ['check-visibility js-member:Element.checkVisibility', 'dialog-closedby js-member:HTMLDialogElement.requestClose']);
+    });
+
+    test('detects members of global instances', () => {
+        assert.deepStrictEqual(detect('document.startViewTransition(() => update());'),
+            ['view-transitions js-member:Document.startViewTransition']);
+    });
+
+    test('ignores members on receivers of unknown or unrelated types', () => {
+        assert.deepStrictEqual(detect('el.checkVisibility(); a?.checkVisibility;'), []);
+        assert.deepStrictEqual(detect('class Settings { configuration = {}; read() { return this.configuration; } }'), []);
+        assert.deepStrictEqual(detect('const vscode: any = load(); vscode.configuration;'), []);
+        assert.deepStrictEqual(detect('const document = { startViewTransition() {} }; document.startViewTransition();'), []);
+    });
+
+    test('generated definitions detect el.checkVisibility()', () => {
+        const matches = new FeaturePatternRegistry().findMatches('function isShown(el: HTMLElement) { return el.checkVisibility(); }', 'typescript');
+        assert.ok(matches.some(match => match.featureId === 'check-visibility' && match.compatKey === 'api.Element.checkVisibility'));
+    });
+});
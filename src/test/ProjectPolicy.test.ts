@@ -0,0 +1,23 @@
+import * as assert from 'assert';
+import { PolicyError, ProjectPolicy } from '../core/ProjectPolicy';
+
+const load = (config: object) => ProjectPolicy.fromJson(JSON.stringify(config), '.baselinerc.json', '/project');
+
+const rejects = (config: object, message: RegExp) =>
+    assert.throws(() => load(config), (error: unknown) =>
+        error instanceof PolicyError && error.source === '.baselinerc.json' && message.test(error.message));
+
+suite('ProjectPolicy', () => {
+    test('accepts browser targets and browserslist queries', () => {
+        assert.deepStrictEqual(load({ targets: { chrome: '109', safari: 16.4 } }).getBrowserTargets(),
+            [{ browser: 'chrome', version: '109' }, { browser: 'safari', version: '16.4' }]);
+        assert.doesNotThrow(() => load({ browserslist: ['chrome >= 109', 'safari >= 16.4'] }));
+    });
+
+    test('rejects malformed targets and browserslist with the policy source', () => {
+        rejects({ targets: ['chrome 109'] }, /targets must be an object/);
+        rejects({ targets: { chrome: 'latest' } }, /targets\.chrome must be a version/);
+        rejects({ browserslist: 109 }, /browserslist must be a query/);
+        rejects({ browserslist: 'chrome >= banana' }, /browserslist is not a valid query/);
+    });
+});
@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { shouldWarnForReport } from '../core/RiskPolicy';
+import { CompatibilityReport, Feature } from '../types';
+
+const report = (compatibility: CompatibilityReport['compatibility'], baseline: NonNullable<Feature['status']>['baseline']): CompatibilityReport => ({
+    feature: { id: 'feature', status: { baseline } },
+    compatibility,
+    missingBrowsers: compatibility === 'full' ? [] : ['safari']
+});
+
+suite('RiskPolicy', () => {
+    test('strict flags newly available features every target supports; moderate does not', () => {
+        assert.strictEqual(shouldWarnForReport(report('full', 'low'), 'strict'), true);
+        assert.strictEqual(shouldWarnForReport(report('full', 'low'), 'moderate'), false);
+        assert.strictEqual(shouldWarnForReport(report('full', false), 'strict'), true);
+    });
+
+    test('widely available features every target supports are never flagged', () => {
+        assert.strictEqual(shouldWarnForReport(report('full', 'high'), 'strict'), false);
+        assert.strictEqual(shouldWarnForReport(report('full', 'high'), 'moderate'), false);
+    });
+
+    test('partial support is accepted by permissive only', () => {
+        assert.strictEqual(shouldWarnForReport(report('partial', 'low'), 'strict'), true);
+        assert.strictEqual(shouldWarnForReport(report('partial', 'low'), 'moderate'), true);
+        assert.strictEqual(shouldWarnForReport(report('partial', 'low'), 'permissive'), false);
+        assert.strictEqual(shouldWarnForReport(report('none', false), 'permissive'), true);
+    });
+});
@@ -48,6 +48,19 @@ export interface Recommendation {
     type?: 'alternative' | 'upgrade' | 'complementary' | 'contextual'; // ADD THIS
 }
 
+export interface BrowserTarget {
+    browser: string;
+    version: string;
+}
+
+/**
+ * Policy expressed in Baseline terms instead of browser versions:
+ * a Baseline year ("Baseline 2023") or "widely available as of a date"
+ */
+export type BaselineTarget =
+    | { kind: 'year'; year: number }
+    | { kind: 'widely'; asOf?: string };
+
 export interface CompatibilityReport {
     feature: Feature;
     compatibility: 'full' | 'partial' | 'none';
@@ -15,19 +15,33 @@ export class GraphView {
 
     constructor(
         private extensionUri: vscode.Uri,
-        private index: InvertedIndex
+        private index: InvertedIndex,
+        private projectAnalyzer: ProjectAnalyzer
     ) {
         this.graphDataBuilder = new GraphDataBuilder();
         this.projectGraphBuilder = new ProjectGraphBuilder();
         this.recommendationEngine = new RecommendationEngine(index);
     }
 
-    public async show() {
-        if (this.panel) {
+    /**
+     * Open the compatibility map; with `featureId`, the feature is selected
+     */
+    public async show(featureId?: string) {
+        if (this.panel && !featureId) {
             this.panel.reveal();
             return;
         }
 
+        // Selecting a feature renders the map again, replacing a project graph
+        if (this.panel) {
+            if (this.panel.viewType === 'baselineGraph') {
+                this.panel.webview.html = await this.getHtmlContent(featureId);
+                this.panel.reveal();
+                return;
+            }
+            this.panel.dispose();
+        }
+
         this.panel = vscode.window.createWebviewPanel(
             'baselineGraph',
             'Baseline Feature Explorer - Compatibility Map',
@@ -39,11 +53,14 @@ export class GraphView {
             }
         );
 
-        this.panel.webview.html = await this.getHtmlContent();
+        const panel = this.panel;
+        panel.webview.html = await this.getHtmlContent(featureId);
         this.setupMessageHandling();
 
-        this.panel.onDidDispose(() => {
-            this.panel = undefined;
+        panel.onDidDispose(() => {
+            if (this.panel === panel) {
+                this.panel = undefined;
+            }
         });
     }
 
@@ -62,31 +79,56 @@ export class GraphView {
             }
         );
 
-        const analyzer = new ProjectAnalyzer(this.index);
-        const analysis = await analyzer.analyzeProject();
-        const template = new ProjectGraphTemplate();
-
-        this.panel.webview.html = template.generate(analysis);
+        const panel = this.panel;
+        panel.onDidDispose(() => {
+            if (this.panel === panel) {
+                this.panel = undefined;
+            }
+        });
         // FIX: Set up message handling for project graph!
         this.setupMessageHandling();
 
-        this.panel.onDidDispose(() => {
-            this.panel = undefined;
+        // Stream partial results into the graph while the scan runs
+        const template = new ProjectGraphTemplate();
+        let rendered = false;
+        const analysis = await this.projectAnalyzer.analyzeProject(partial => {
+            if (this.panel !== panel) {
+                return;
+            }
+            if (!rendered) {
+                panel.webview.html = template.generate(partial, true);
+                rendered = true;
+            } else {
+                panel.webview.postMessage({
+                    command: 'updateAnalysis',
+                    graph: this.projectGraphBuilder.buildProjectGraph(partial),
+                    analysis: template.summarize(partial)
+                });
+            }
         });
+
+        if (this.panel === panel) {
+            panel.webview.html = template.generate(analysis);
+        }
     }
 
-    private async getHtmlContent(): Promise<string> {
+    private async getHtmlContent(featureId?: string): Promise<string> {
         try {
             await this.index.waitForReady();
         } catch (error) {
             return this.getErrorHtmlContent();
         }
 
-        const features = this.index.getAllFeatures();
+        // The map shows a subset of all features; make sure the selected one is in it
+        let features = this.index.getAllFeatures();
+        const selected = featureId ? this.index.getFeature(featureId) : undefined;
+        if (selected) {
+            features = [selected, ...features.filter(feature => feature.id !== selected.id)];
+        }
         const graphData = await this.graphDataBuilder.buildMeaningfulGraph(features);
         const template = new CompatibilityMapTemplate();
 
-        return template.generate(graphData);
+        return template.generate(graphData, selected?.id);
     }
 
 
@@ -123,11 +165,23 @@ export class GraphView {
                 case 'getRecommendations':
                     await this.handleRecommendationsRequest(message);
                     break;
+                case 'openLocation':
+                    await this.openLocation(message);
+                    break;
                 default:
             }
         });
     }
 
+    private async openLocation(message: any): Promise<void> {
+        // Locations are one-based
+        const position = new vscode.Position(Math.max(message.line - 1, 0), Math.max(message.column - 1, 0));
+        await vscode.window.showTextDocument(vscode.Uri.parse(message.uri), {
+            viewColumn: vscode.ViewColumn.One,
+            selection: new vscode.Range(position, position)
+        });
+    }
+
     private async handleRecommendationsRequest(message: any): Promise<void> {
 
         const feature = this.index.getFeature(message.featureId);
@@ -2,6 +2,9 @@ import { GraphData, GraphNode } from '../types';
 import { ProjectAnalysis } from '../../../core/ProjectAnalyzer';
 import { getFeatureStatus } from '../utils/featureStatus';
 
+// Usages listed per node; the graph is embedded in the page as JSON
+const MAX_LOCATIONS = 20;
+
 export class ProjectGraphBuilder {
     buildProjectGraph(analysis: ProjectAnalysis): GraphData {
         const nodes: GraphNode[] = [];
@@ -21,11 +24,22 @@ export class ProjectGraphBuilder {
                 usageCount: projectFeature.usageCount,
                 fileCount: projectFeature.files.length,
                 files: projectFeature.files,
+                locations: projectFeature.locations.slice(0, MAX_LOCATIONS).map(({ file, uri, line, column, context }) => ({ file, uri, line, column, context })),
                 risk: status.key === 'limited' || status.key === 'newly' || status.key === 'unknown',
                 dimmed: false
             });
         });
 
+        // Tag nodes with the packages that use them
+        analysis.packages?.forEach(pkg => {
+            pkg.analysis.features.forEach((_, featureId) => {
+                const node = nodes.find(n => n.id === featureId);
+                if (node) {
+                    node.packages = [...(node.packages || []), pkg.name];
+                }
+            });
+        });
+
         // Create edges between features in same files
         const fileFeatureMap = new Map<string, string[]>();
         analysis.features.forEach((pf, featureId) => {
@@ -1,7 +1,7 @@
 import { GraphData } from '../types';
 
 export class CompatibilityMapTemplate {
-    generate(graphData: GraphData): string {
+    generate(graphData: GraphData, selectedFeatureId?: string): string {
         const stats = this.calculateStats(graphData);
         
         return `<!DOCTYPE html>
@@ -21,7 +21,7 @@ export class CompatibilityMapTemplate {
                 ${this.getTutorial()}
             </div>
             <script>
-                ${this.getScript(graphData)}
+                ${this.getScript(graphData, selectedFeatureId)}
             </script>
         </body>
         </html>`;
@@ -772,7 +772,7 @@ export class CompatibilityMapTemplate {
     `;
 }
 
-    private getScript(graphData: GraphData): string {
+    private getScript(graphData: GraphData, selectedFeatureId?: string): string {
         return `
             const vscode = acquireVsCodeApi();
             const canvas = document.getElementById('canvas');
@@ -1266,6 +1266,15 @@ export class CompatibilityMapTemplate {
             // Initialize layout
             layoutByCompatibility();
             
+            // Feature opened from the editor, e.g. a hover link
+            const initialNode = graphData.nodes.find(n => n.id === ${JSON.stringify(selectedFeatureId ?? null)});
+            if (initialNode) {
+                selectNode(initialNode);
+                camera.zoom = 1.5;
+                camera.x = -initialNode.x * camera.zoom;
+                camera.y = -initialNode.y * camera.zoom;
+            }
+            
             // Start render loop
             render();
         `;
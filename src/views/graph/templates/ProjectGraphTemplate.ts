@@ -9,7 +9,11 @@ export class ProjectGraphTemplate {
         this.builder = new ProjectGraphBuilder();
     }
 
-    generate(analysis: ProjectAnalysis): string {
+    /**
+     * `scanning` marks a partial analysis; the page then accepts
+     * `updateAnalysis` messages with the graph and summary of later results.
+     */
+    generate(analysis: ProjectAnalysis, scanning: boolean = false): string {
         const graphData = this.builder.buildProjectGraph(analysis);
         const scoreColor = this.getScoreColor(analysis.compatibilityScore);
 
@@ -24,7 +28,7 @@ export class ProjectGraphTemplate {
         <body>
             <div id="container">
                 <canvas id="canvas"></canvas>
-                ${this.getScoreCard(analysis, scoreColor)}
+                ${this.getScoreCard(analysis, scoreColor, scanning)}
                 ${this.getControlPanel(analysis)}
                 ${this.getLegend()}
                 <div id="tooltip"></div>
@@ -34,6 +38,21 @@ export class ProjectGraphTemplate {
         </html>`;
     }
 
+    /**
+     * Score card figures, as embedded in the page and sent with updates
+     */
+    summarize(analysis: ProjectAnalysis) {
+        return {
+            compatibilityScore: analysis.compatibilityScore,
+            totalFeatures: analysis.features.size,
+            riskCount: analysis.riskFeatures.length,
+            safeCount: analysis.safeFeatures.length,
+            guardedCount: analysis.guardedFeatures.length,
+            analyzedFiles: analysis.analyzedFiles,
+            totalFiles: analysis.totalFiles
+        };
+    }
+
     private getScoreColor(score: number): string {
         if (score >= 90) return '#4CAF50';
         if (score >= 70) return '#FFC107';
@@ -107,6 +126,12 @@ export class ProjectGraphTemplate {
                 font-weight: 600;
             }
             
+            .scan-progress {
+                margin-top: 10px;
+                font-size: 12px;
+                opacity: 0.8;
+            }
+            
             .score-breakdown {
                 margin-top: 16px;
                 padding-top: 16px;
@@ -293,6 +318,28 @@ export class ProjectGraphTemplate {
                 }
             }
             
+            .location-item {
+                padding: 6px 8px;
+                margin-bottom: 4px;
+                border-radius: 6px;
+                cursor: pointer;
+                font-size: 12px;
+            }
+            
+            .location-item:hover {
+                background: rgba(102, 126, 234, 0.25);
+            }
+            
+            .location-path {
+                color: #8ab4f8;
+                text-decoration: underline;
+            }
+            
+            .location-context, .location-more {
+                font-size: 11px;
+                opacity: 0.7;
+            }
+            
             .recommendations-header {
                 font-weight: 600;
                 font-size: 16px;
@@ -425,6 +472,34 @@ export class ProjectGraphTemplate {
                 color: #667eea;
             }
             
+            .packages {
+                margin-top: 20px;
+            }
+            
+            .package-item {
+                padding: 8px 10px;
+                margin-bottom: 6px;
+                border-radius: 8px;
+                background: rgba(255, 255, 255, 0.05);
+                cursor: pointer;
+            }
+            
+            .package-item:hover, .package-item.selected {
+                background: rgba(102, 126, 234, 0.25);
+            }
+            
+            .package-header {
+                display: flex;
+                justify-content: space-between;
+                font-size: 13px;
+            }
+            
+            .package-meta {
+                font-size: 11px;
+                opacity: 0.7;
+                margin-top: 2px;
+            }
+            
             /* Legend */
             .legend {
                 position: absolute;
@@ -577,25 +652,30 @@ export class ProjectGraphTemplate {
         `;
     }
 
-    private getScoreCard(analysis: ProjectAnalysis, scoreColor: string): string {
+    private getScoreCard(analysis: ProjectAnalysis, scoreColor: string, scanning: boolean): string {
         return `
             <div class="score-card">
                 <div class="score-title">Compatibility Score</div>
-                <div class="score-value">${analysis.compatibilityScore}</div>
-                <div class="score-label">${this.getScoreLabel(analysis.compatibilityScore)}</div>
+                <div class="score-value" id="score-value">${analysis.compatibilityScore}</div>
+                <div class="score-label" id="score-label">${this.getScoreLabel(analysis.compatibilityScore)}</div>
+                ${scanning ? `<div class="scan-progress" id="scan-progress">Scanning ${analysis.analyzedFiles}/${analysis.totalFiles} files...</div>` : ''}
                 
                 <div class="score-breakdown">
                     <div class="score-item">
                         <span>Total Features:</span>
-                        <strong>${analysis.features.size}</strong>
+                        <strong id="total-count">${analysis.features.size}</strong>
                     </div>
                     <div class="score-item">
                         <span>✅ Safe to Use:</span>
-                        <strong style="color: #4CAF50">${analysis.safeFeatures.length}</strong>
+                        <strong style="color: #4CAF50" id="safe-count">${analysis.safeFeatures.length}</strong>
+                    </div>
+                    <div class="score-item">
+                        <span>🛡️ Guarded:</span>
+                        <strong style="color: #2196F3" id="guarded-count">${analysis.guardedFeatures.length}</strong>
                     </div>
                     <div class="score-item">
                         <span>⚠️ Need Attention:</span>
-                        <strong style="color: #F44336">${analysis.riskFeatures.length}</strong>
+                        <strong style="color: #F44336" id="risk-count">${analysis.riskFeatures.length}</strong>
                     </div>
                 </div>
             </div>
@@ -615,6 +695,12 @@ export class ProjectGraphTemplate {
                     <input type="text" id="search" placeholder="Search your features..." />
                 </div>
                 
+                <!-- Usages of the selected feature -->
+                <div id="locations-panel" class="recommendations-panel">
+                    <div class="recommendations-header">📍 Usages</div>
+                    <div id="locations-content"></div>
+                </div>
+                
                 <!-- Recommendations Panel -->
                 <div id="recommendations-panel" class="recommendations-panel">
                     <div class="recommendations-header">💡 Smart Recommendations</div>
@@ -623,6 +709,8 @@ export class ProjectGraphTemplate {
                     </div>
                 </div>
                 
+                ${this.getPackagesSection(analysis)}
+                
                 ${this.getSuggestionsSection(analysis)}
                 
             </div>
@@ -630,6 +718,34 @@ export class ProjectGraphTemplate {
     }
 
 
+    private getPackagesSection(analysis: ProjectAnalysis): string {
+        if (!analysis.packages?.length) {
+            return '';
+        }
+
+        const packages = analysis.packages.map(pkg => `
+            <div class="package-item" data-package="${this.escapeHtml(pkg.name)}" title="Targets: ${this.escapeHtml(pkg.targets)}">
+                <div class="package-header">
+                    <span class="package-name">📦 ${this.escapeHtml(pkg.name)}</span>
+                    <strong style="color: ${this.getScoreColor(pkg.analysis.compatibilityScore)}">${pkg.analysis.compatibilityScore}</strong>
+                </div>
+                <div class="package-meta">${this.escapeHtml(pkg.path)} • ${pkg.analysis.analyzedFiles} files • ${pkg.analysis.riskFeatures.length} risk features</div>
+            </div>
+        `).join('');
+
+        return `
+            <div class="packages">
+                <div class="suggestions-title">📦 Packages</div>
+                ${packages}
+            </div>
+        `;
+    }
+
+    // Package names and paths come from the workspace; the page script escapes its own text the same way
+    private escapeHtml(text: string): string {
+        return text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+    }
+
     private getSuggestionsSection(analysis: ProjectAnalysis): string {
         if (analysis.suggestions.length === 0) {
             return '';
@@ -675,12 +791,7 @@ export class ProjectGraphTemplate {
             const canvas = document.getElementById('canvas');
             const ctx = canvas.getContext('2d');
             const graphData = ${JSON.stringify(graphData)};
-            const analysisData = ${JSON.stringify({
-                compatibilityScore: analysis.compatibilityScore,
-                totalFeatures: analysis.features.size,
-                riskCount: analysis.riskFeatures.length,
-                safeCount: analysis.safeFeatures.length
-            })};
+            let analysisData = ${JSON.stringify(this.summarize(analysis))};
             
             let selectedNode = null;
             let hoveredNode = null;
@@ -688,6 +799,7 @@ export class ProjectGraphTemplate {
             let isDragging = false;
             let dragStart = { x: 0, y: 0 };
             let searchQuery = '';
+            let packageFilter = null;
             
             // Physics simulation
             let simulation = {
@@ -800,7 +912,8 @@ export class ProjectGraphTemplate {
             
             function drawNode(node, highlighted) {
                 const { x, y, radius, color, label, usageCount, risk } = node;
-                const opacity = searchQuery && !highlighted ? 0.3 : 1;
+                const outsidePackage = packageFilter && !(node.packages || []).includes(packageFilter);
+                const opacity = (searchQuery && !highlighted) || outsidePackage ? 0.3 : 1;
                 
                 // Glow for risky features
                 if (risk && opacity > 0.5) {
@@ -895,6 +1008,8 @@ export class ProjectGraphTemplate {
                     listItem.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
                 }
                 
+                showLocations(node);
+                
                 // Show recommendations panel with loading state
                 const recsPanel = document.getElementById('recommendations-panel');
                 const recsContent = document.getElementById('recommendations-content');
@@ -910,6 +1025,36 @@ export class ProjectGraphTemplate {
                 });
             }
             
+            function escapeHtml(text) {
+                return String(text).replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]);
+            }
+            
+            // Clickable usages: open the file at the line and column
+            function showLocations(node) {
+                const panel = document.getElementById('locations-panel');
+                const content = document.getElementById('locations-content');
+                const locations = node.locations || [];
+                
+                panel.classList.toggle('visible', locations.length > 0);
+                content.innerHTML = locations.map((loc, i) =>
+                    '<div class="location-item" data-index="' + i + '">' +
+                        '<div class="location-path">' + escapeHtml(loc.file + ':' + loc.line + ':' + loc.column) + '</div>' +
+                        '<code class="location-context">' + escapeHtml(loc.context) + '</code>' +
+                    '</div>'
+                ).join('') + (node.usageCount > locations.length
+                    ? '<div class="location-more">... and ' + (node.usageCount - locations.length) + ' more</div>'
+                    : '');
+                
+                content.querySelectorAll('.location-item').forEach(item => {
+                    item.addEventListener('click', () => {
+                        const loc = locations[Number(item.dataset.index)];
+                        if (loc.uri) {
+                            vscode.postMessage({ command: 'openLocation', uri: loc.uri, line: loc.line, column: loc.column });
+                        }
+                    });
+                });
+            }
+            
             // Function to select a feature by ID
             function selectFeatureById(featureId) {
                 const node = simulation.nodes.find(n => n.id === featureId);
@@ -926,9 +1071,50 @@ export class ProjectGraphTemplate {
                     case 'showRecommendations':
                         displayRecommendations(message.recommendations);
                         break;
+                    case 'updateAnalysis':
+                        mergeGraph(message.graph);
+                        updateSummary(message.analysis);
+                        break;
                 }
             });
             
+            // Partial results while the project scan runs: keep existing nodes in place
+            function mergeGraph(graph) {
+                const nodesById = new Map(simulation.nodes.map(node => [node.id, node]));
+                
+                graph.nodes.forEach(incoming => {
+                    const node = nodesById.get(incoming.id);
+                    if (node) {
+                        Object.assign(node, incoming, { x: node.x, y: node.y, vx: node.vx, vy: node.vy });
+                    } else {
+                        const angle = Math.random() * Math.PI * 2;
+                        Object.assign(incoming, { x: Math.cos(angle) * 200, y: Math.sin(angle) * 200, vx: 0, vy: 0 });
+                        simulation.nodes.push(incoming);
+                        nodesById.set(incoming.id, incoming);
+                    }
+                });
+                
+                simulation.edges = graph.edges
+                    .map(edge => ({ ...edge, from: nodesById.get(edge.from.id), to: nodesById.get(edge.to.id) }))
+                    .filter(edge => edge.from && edge.to);
+            }
+            
+            function updateSummary(summary) {
+                analysisData = summary;
+                document.getElementById('score-value').textContent = summary.compatibilityScore;
+                document.getElementById('score-label').textContent =
+                    summary.compatibilityScore >= 90 ? 'Excellent' : summary.compatibilityScore >= 70 ? 'Good' : 'Needs Work';
+                document.getElementById('total-count').textContent = summary.totalFeatures;
+                document.getElementById('safe-count').textContent = summary.safeCount;
+                document.getElementById('guarded-count').textContent = summary.guardedCount;
+                document.getElementById('risk-count').textContent = summary.riskCount;
+                
+                const scanProgress = document.getElementById('scan-progress');
+                if (scanProgress) {
+                    scanProgress.textContent = 'Scanning ' + summary.analyzedFiles + '/' + summary.totalFiles + ' files...';
+                }
+            }
+            
             function displayRecommendations(recommendations) {
                 
                 const recsContent = document.getElementById('recommendations-content');
@@ -1021,6 +1207,16 @@ export class ProjectGraphTemplate {
                 });
             });
             
+            // Package clicks: dim the features the package does not use
+            document.querySelectorAll('.package-item').forEach(item => {
+                item.addEventListener('click', () => {
+                    packageFilter = packageFilter === item.dataset.package ? null : item.dataset.package;
+                    document.querySelectorAll('.package-item').forEach(other => {
+                        other.classList.toggle('selected', other.dataset.package === packageFilter);
+                    });
+                });
+            });
+            
             // Feature item clicks - FIX: Request recommendations directly
             document.querySelectorAll('.feature-item').forEach(item => {
                 item.addEventListener('click', () => {
@@ -1143,6 +1339,7 @@ export class ProjectGraphTemplate {
                     totalFeatures: analysisData.totalFeatures,
                     riskFeatures: analysisData.riskCount,
                     safeFeatures: analysisData.safeCount,
+                    guardedFeatures: analysisData.guardedCount,
                     features: graphData.nodes.map(n => ({
                         id: n.id,
                         name: n.label,
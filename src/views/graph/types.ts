@@ -16,6 +16,8 @@ export interface GraphNode {
     fileCount?: number;
     files?: string[];
     risk?: boolean;
+    packages?: string[];      // Workspace packages using the feature
+    locations?: Array<{ file: string; uri?: string; line: number; column: number; context: string }>;
 }
 
 export interface GraphEdge {
@@ -3,6 +3,7 @@
 'use strict';
 
 const path = require('path');
+const webpack = require('webpack');
 
 //@ts-check
 /** @typedef {import('webpack').Configuration} WebpackConfig **/
@@ -12,11 +13,14 @@ const extensionConfig = {
   target: 'node', // VS Code extensions run in a Node.js-context 📖 -> https://webpack.js.org/configuration/node/
 	mode: 'none', // this leaves the source code as close as possible to the original (when packaging we set this to 'production')
 
-  entry: './src/extension.ts', // the entry point of this extension, 📖 -> https://webpack.js.org/configuration/entry-context/
+  entry: {
+    extension: './src/extension.ts', // the entry point of this extension, 📖 -> https://webpack.js.org/configuration/entry-context/
+    scanWorker: './src/core/workers/scanWorker.ts' // worker threads for project analysis
+  },
   output: {
     // the bundle is stored in the 'dist' folder (check package.json), 📖 -> https://webpack.js.org/configuration/output/
     path: path.resolve(__dirname, 'dist'),
-    filename: 'extension.js',
+    filename: '[name].js',
     libraryTarget: 'commonjs2'
   },
   externals: {
@@ -40,9 +44,51 @@ const extensionConfig = {
       }
     ]
   },
+  // browserslist resolves shareable configs with dynamic requires; the bundled
+  // usage data snapshot is used instead
+  ignoreWarnings: [{ module: /node_modules[\\/](?:browserslist|typescript)/ }],
   devtool: 'nosources-source-map',
   infrastructureLogging: {
     level: "log", // enables logging required for problem matchers
   },
 };
-module.exports = [ extensionConfig ];
\ No newline at end of file
+
+/** @type WebpackConfig */
+const cliConfig = {
+  target: 'node', // the CLI runs headless under plain Node.js, outside VS Code
+	mode: 'none',
+
+  entry: './src/cli/index.ts',
+  output: {
+    path: path.resolve(__dirname, 'dist'),
+    filename: 'cli.js',
+    libraryTarget: 'commonjs2'
+  },
+  resolve: {
+    extensions: ['.ts', '.js']
+  },
+  module: {
+    rules: [
+      {
+        test: /\.ts$/,
+        exclude: /node_modules/,
+        use: [
+          {
+            loader: 'ts-loader'
+          }
+        ]
+      }
+    ]
+  },
+  plugins: [
+    new webpack.BannerPlugin({ banner: '#!/usr/bin/env node', raw: true })
+  ],
+  // browserslist resolves shareable configs with dynamic requires; the bundled
+  // usage data snapshot is used instead
+  ignoreWarnings: [{ module: /node_modules[\\/](?:browserslist|typescript)/ }],
+  devtool: 'nosources-source-map',
+  infrastructureLogging: {
+    level: "log",
+  },
+};
+module.exports = [ extensionConfig, cliConfig ];
\ No newline at end of file